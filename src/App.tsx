@@ -2,13 +2,19 @@ import { useState, useEffect } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { ChatInterface } from './components/ChatInterface';
 import { DocumentViewer } from './components/DocumentViewer';
+import { ConversationSidebar } from './components/ConversationSidebar';
 import { Database } from './lib/db';
+import { IngestionQueue, summarizeJobs } from './lib/ingestionQueue';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { FileSearch, MessageCircle, Upload, FileText, Settings } from 'lucide-react';
 import { ProjectContext } from './lib/types';
 
 // Initialize the database
 const db = new Database();
 
+// Documents are ingested in the background, one file at a time
+const ingestionQueue = new IngestionQueue(db);
+
 // Available project contexts
 const availableContexts: ProjectContext[] = [
   {
@@ -59,21 +65,14 @@ const availableContexts: ProjectContext[] = [
 
 function App() {
   const [activeTab, setActiveTab] = useState('upload');
-  const [processingStatus, setProcessingStatus] = useState<{
-    isProcessing: boolean;
-    progress: number;
-    message: string;
-  }>({
-    isProcessing: false,
-    progress: 0,
-    message: '',
-  });
+  const jobs = useLiveQuery(() => db.jobs.toArray(), []) ?? [];
+  const queueSummary = summarizeJobs(jobs);
   const [selectedDocument, setSelectedDocument] = useState<{
     id: string;
     name: string;
     content: string;
     type: string;
-    highlights?: { text: string; page?: number; position?: { x: number; y: number; width: number; height: number } }[];
+    highlights?: { text: string; page?: number; position?: { x: number; y: number; width: number; height: number }; pageSize?: { width: number; height: number } }[];
   } | null>(null);
   const [activeContext, setActiveContext] = useState<ProjectContext>(
     () => {
@@ -84,22 +83,34 @@ function App() {
     }
   );
   const [showContextSelector, setShowContextSelector] = useState(false);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(
+    () => localStorage.getItem('active_conversation_id')
+  );
 
   useEffect(() => {
     // Save the active context to localStorage whenever it changes
     localStorage.setItem('active_context_id', activeContext.id);
   }, [activeContext]);
 
-  const handleProcessingUpdate = (status: { isProcessing: boolean; progress: number; message: string }) => {
-    setProcessingStatus(status);
-  };
+  useEffect(() => {
+    if (activeConversationId) {
+      localStorage.setItem('active_conversation_id', activeConversationId);
+    } else {
+      localStorage.removeItem('active_conversation_id');
+    }
+  }, [activeConversationId]);
+
+  useEffect(() => {
+    // Pick up jobs that were queued or interrupted before the page was reloaded
+    ingestionQueue.resume();
+  }, []);
 
   const handleDocumentSelect = (document: {
     id: string;
     name: string;
     content: string;
     type: string;
-    highlights?: { text: string; page?: number; position?: { x: number; y: number; width: number; height: number } }[];
+    highlights?: { text: string; page?: number; position?: { x: number; y: number; width: number; height: number }; pageSize?: { width: number; height: number } }[];
   }) => {
     setSelectedDocument(document);
     setActiveTab('view');
@@ -108,6 +119,10 @@ function App() {
   const handleContextChange = (context: ProjectContext) => {
     setActiveContext(context);
     setShowContextSelector(false);
+    // Conversations belong to the context they were started in
+    if (context.id !== activeContext.id) {
+      setActiveConversationId(null);
+    }
   };
 
   return (
@@ -190,18 +205,36 @@ function App() {
             </button>
           </nav>
 
-          {processingStatus.isProcessing && (
+          {activeTab === 'chat' && (
+            <ConversationSidebar
+              db={db}
+              activeContext={activeContext}
+              activeConversationId={activeConversationId}
+              onSelect={setActiveConversationId}
+            />
+          )}
+
+          {queueSummary.isProcessing && (
             <div className="mt-6 p-3 bg-blue-50 rounded-md">
-              <h3 className="font-medium text-blue-700">Processing Documents</h3>
-              <div className="mt-2">
-                <div className="w-full bg-gray-200 rounded-full h-2.5">
-                  <div
-                    className="bg-blue-600 h-2.5 rounded-full"
-                    style={{ width: `${processingStatus.progress}%` }}
-                  ></div>
+              <h3 className="font-medium text-blue-700">
+                Processing Documents ({queueSummary.finished}/{queueSummary.total})
+              </h3>
+              {queueSummary.batches.map(batch => (
+                <div key={batch.batchId} className="mt-2">
+                  <p className="text-xs text-gray-600 mb-1">
+                    Batch of {batch.total}: {batch.finished} done, {batch.progress}%
+                  </p>
+                  <div className="w-full bg-gray-200 rounded-full h-2.5">
+                    <div
+                      className="bg-blue-600 h-2.5 rounded-full"
+                      style={{ width: `${batch.progress}%` }}
+                    ></div>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {batch.activeJob ? batch.activeJob.message : 'Waiting to start...'}
+                  </p>
                 </div>
-                <p className="text-sm text-gray-600 mt-1">{processingStatus.message}</p>
-              </div>
+              ))}
             </div>
           )}
 
@@ -228,7 +261,7 @@ function App() {
           {activeTab === 'upload' && (
             <FileUploader 
               db={db} 
-              onProcessingUpdate={handleProcessingUpdate} 
+              ingestionQueue={ingestionQueue}
               onDocumentSelect={handleDocumentSelect}
               activeContext={activeContext}
             />
@@ -238,6 +271,8 @@ function App() {
               db={db} 
               onDocumentSelect={handleDocumentSelect} 
               activeContext={activeContext}
+              conversationId={activeConversationId}
+              onConversationChange={setActiveConversationId}
             />
           )}
           {activeTab === 'view' && selectedDocument && (
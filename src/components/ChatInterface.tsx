@@ -1,9 +1,17 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Database } from '../lib/db';
-import { ChatService, LLMProvider, LLMModel } from '../lib/chatService';
-import { Send, Settings, FileText, AlertCircle, Check, RefreshCw, Loader2 } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Database, MessageRecord } from '../lib/db';
+import { ChatService } from '../lib/chatService';
+import { LLMModel, LLMProviderType } from '../lib/llmProvider';
+import { getLLMProviderConfig, getLLMProviderDefinition, getLLMProviders, isLLMProviderConfigured } from '../lib/llmProviderRegistry';
+import { Send, Settings, FileText, AlertCircle, Check, RefreshCw, Loader2, Tag, ChevronDown, ChevronRight, X, Square } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { ProjectContext } from '../lib/types';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { GenerationSettings, ProjectContext, RetrievalScopeMode, RetrievalSettings } from '../lib/types';
+import { getRetrievalSettings, saveRetrievalSettings } from '../lib/retrievalSettings';
+import { defaultGenerationSettings, getGenerationSettings, saveGenerationSettings } from '../lib/generationSettings';
+import { buildQueryFilters, formatFilter, getFilterCompletion, parseFilters, QueryFilter, removeFilter } from '../lib/queryFilters';
+import { EmbeddingSettingsPanel } from './EmbeddingSettingsPanel';
 
 interface ChatInterfaceProps {
   db: Database;
@@ -12,45 +20,89 @@ interface ChatInterfaceProps {
     name: string;
     content: string;
     type: string;
-    highlights?: { text: string; page?: number; position?: { x: number; y: number; width: number; height: number } }[];
+    highlights?: { text: string; page?: number; position?: { x: number; y: number; width: number; height: number }; pageSize?: { width: number; height: number } }[];
   }) => void;
   activeContext: ProjectContext;
+  // Conversation shown, or null until the first question starts a new one
+  conversationId: string | null;
+  onConversationChange: (conversationId: string) => void;
 }
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  sources?: Array<{
-    documentId: string;
-    documentName: string;
-    content: string;
-    metadata: any;
-  }>;
+// Conversation titles start as the first question, shortened
+const MAX_TITLE_LENGTH = 60;
+
+function conversationTitle(question: string): string {
+  return question.length > MAX_TITLE_LENGTH ? `${question.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...` : question;
 }
 
-export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+export function ChatInterface({ db, onDocumentSelect, activeContext, conversationId, onConversationChange }: ChatInterfaceProps) {
+  const storedMessages = useLiveQuery(
+    () => conversationId ? db.getMessages(conversationId) : Promise.resolve([]),
+    [db, conversationId]
+  );
+  // The answer being written; shown after the stored messages until it is saved itself
+  const [pendingMessage, setPendingMessage] = useState<MessageRecord | null>(null);
+  const messages = useMemo(() => {
+    const stored = storedMessages || [];
+    return pendingMessage && pendingMessage.conversationId === conversationId && !stored.some(message => message.id === pendingMessage.id)
+      ? [...stored, pendingMessage]
+      : stored;
+  }, [storedMessages, pendingMessage, conversationId]);
+  const [expandedTransformations, setExpandedTransformations] = useState<Set<string>>(new Set());
   const [input, setInput] = useState('');
+  const [caret, setCaret] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
-  const [openaiApiKey, setOpenaiApiKey] = useState(localStorage.getItem('openai_api_key') || '');
-  const [geminiApiKey, setGeminiApiKey] = useState(localStorage.getItem('gemini_api_key') || '');
-  const [activeProvider, setActiveProvider] = useState<LLMProvider>(
-    (localStorage.getItem('active_llm_provider') as LLMProvider) || 'openai'
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // API keys and server addresses as typed, per provider
+  const [apiKeys, setApiKeys] = useState<Record<string, string>>(() => Object.fromEntries(
+    getLLMProviders().map(provider => [provider.type, getLLMProviderConfig(provider.type).apiKey])
+  ));
+  const [baseUrls, setBaseUrls] = useState<Record<string, string>>(() => Object.fromEntries(
+    getLLMProviders().map(provider => [provider.type, getLLMProviderConfig(provider.type).baseUrl])
+  ));
+  const [activeProvider, setActiveProvider] = useState<LLMProviderType>(
+    () => getLLMProviderDefinition(localStorage.getItem('active_llm_provider')).type
   );
+  const providerDefinition = getLLMProviderDefinition(activeProvider);
+  const activeApiKey = apiKeys[activeProvider] || '';
+  const activeBaseUrl = baseUrls[activeProvider] || '';
+  const isProviderReady = isLLMProviderConfigured(activeProvider, { apiKey: activeApiKey, baseUrl: activeBaseUrl, model: null });
   const [availableModels, setAvailableModels] = useState<LLMModel[]>([]);
   const [activeModel, setActiveModel] = useState<string | null>(
     localStorage.getItem('active_llm_model') || null
   );
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [showSettings, setShowSettings] = useState(
-    !localStorage.getItem('openai_api_key') && !localStorage.getItem('gemini_api_key')
+    () => !isLLMProviderConfigured(getLLMProviderDefinition(localStorage.getItem('active_llm_provider')).type)
   );
   const [error, setError] = useState<string | null>(null);
+  const [scopeMode, setScopeMode] = useState<RetrievalScopeMode>(
+    (localStorage.getItem('retrieval_scope_mode') as RetrievalScopeMode) || 'context'
+  );
+  const [scopeTags, setScopeTags] = useState<string[]>([]);
+  const availableTags = useLiveQuery(() => db.getAllTags(), [db]) || [];
+  const documentNames = useLiveQuery(() => db.getDocumentNames(), [db]) || [];
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(
+    () => getRetrievalSettings(activeContext.id)
+  );
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(
+    () => getGenerationSettings(activeProvider, activeContext.id)
+  );
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const chatService = new ChatService(db);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  // One service for the component's lifetime, so the context prompt and its search caches persist
+  const chatService = useMemo(() => new ChatService(db), [db]);
+
+  // Inline filters such as doc:"name.pdf" or page:3-5 typed in the chat box
+  const inputFilters = parseFilters(input).filters;
+  const filterCompletion = getFilterCompletion(input, caret);
+  const filterSuggestions = filterCompletion
+    ? (filterCompletion.key === 'doc' ? documentNames : availableTags)
+      .filter(value => value.toLowerCase().includes(filterCompletion.partial.toLowerCase()))
+      .slice(0, 8)
+    : [];
 
   useEffect(() => {
     // Scroll to bottom of messages
@@ -60,23 +112,57 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
   // Update chat service with the active context
   useEffect(() => {
     chatService.setContextPrompt(activeContext.promptPrefix);
-  }, [activeContext]);
+  }, [chatService, activeContext]);
+
+  useEffect(() => {
+    localStorage.setItem('retrieval_scope_mode', scopeMode);
+  }, [scopeMode]);
+
+  // Retrieval settings belong to the active context
+  useEffect(() => {
+    setRetrievalSettings(getRetrievalSettings(activeContext.id));
+  }, [activeContext.id]);
+
+  // Generation settings belong to the active provider within the active context
+  useEffect(() => {
+    setGenerationSettings(getGenerationSettings(activeProvider, activeContext.id));
+  }, [activeProvider, activeContext.id]);
+
+  const toggleTransformations = (messageId: string) => {
+    setExpandedTransformations(prev => {
+      const next = new Set(prev);
+      if (!next.delete(messageId)) {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const updateRetrievalSettings = (changes: Partial<RetrievalSettings>) => {
+    const updated = { ...retrievalSettings, ...changes };
+    setRetrievalSettings(updated);
+    saveRetrievalSettings(activeContext.id, updated);
+  };
+
+  const updateGenerationSettings = (changes: Partial<GenerationSettings>) => {
+    const updated = { ...generationSettings, ...changes };
+    setGenerationSettings(updated);
+    saveGenerationSettings(activeProvider, activeContext.id, updated);
+  };
 
-  // Fetch available models when provider or API key changes
+  // Fetch available models when provider, API key or server address changes
   useEffect(() => {
     const fetchModels = async () => {
-      if ((activeProvider === 'openai' && openaiApiKey) || 
-          (activeProvider === 'gemini' && geminiApiKey)) {
+      if (isLLMProviderConfigured(activeProvider, { apiKey: activeApiKey, baseUrl: activeBaseUrl, model: null })) {
         
         setIsLoadingModels(true);
         setError(null);
         
         try {
-          // Update the chat service with the current provider and API key
-          if (activeProvider === 'openai') {
-            chatService.setOpenAIApiKey(openaiApiKey);
-          } else {
-            chatService.setGeminiApiKey(geminiApiKey);
+          // Update the chat service with the current provider, API key and server address
+          chatService.setApiKey(activeProvider, activeApiKey);
+          if (getLLMProviderDefinition(activeProvider).needsBaseUrl) {
+            chatService.setBaseUrl(activeProvider, activeBaseUrl);
           }
           
           chatService.setActiveProvider(activeProvider);
@@ -99,71 +185,162 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
     };
     
     fetchModels();
-  }, [activeProvider, openaiApiKey, geminiApiKey]);
+  }, [chatService, activeProvider, activeApiKey, activeBaseUrl]);
 
   const handleSendMessage = async () => {
     if (!input.trim()) return;
     
-    // Check if the active provider has an API key
-    if (activeProvider === 'openai' && !openaiApiKey) {
-      setError('Please set your OpenAI API key in settings first.');
-      setShowSettings(true);
-      return;
-    } else if (activeProvider === 'gemini' && !geminiApiKey) {
-      setError('Please set your Google Gemini API key in settings first.');
+    // Check if the active provider has an API key or server address
+    if (!isProviderReady) {
+      setError(providerDefinition.needsBaseUrl && !activeBaseUrl.trim()
+        ? `Please set the server URL for ${providerDefinition.name} in settings first.`
+        : `Please set your ${providerDefinition.name} API key in settings first.`);
       setShowSettings(true);
       return;
     }
     
+    if (scopeMode === 'tags' && scopeTags.length === 0) {
+      setError('Please select at least one tag to search, or choose a different search scope.');
+      return;
+    }
+
+    const { query, filters } = parseFilters(input);
+    if (!query) {
+      setError('Please add a question after the filters.');
+      return;
+    }
+
     // Check if a model is selected
     if (!activeModel) {
-      setError(`Please select a model for ${activeProvider === 'openai' ? 'OpenAI' : 'Google Gemini'}.`);
+      setError(`Please select a model for ${providerDefinition.name}.`);
       setShowSettings(true);
       return;
     }
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: input,
-      timestamp: new Date()
-    };
+    // Earlier turns let the model understand follow-up questions; filters are not part of the question
+    const history = messages
+      .filter(message => !message.error && message.content.trim())
+      .map(message => ({
+        role: message.role,
+        content: message.role === 'user' ? parseFilters(message.content).query : message.content
+      }));
 
-    setMessages(prev => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
     setError(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // The answer is filled in as it streams: sources first, then the text piece by piece
+    let assistantMessage: MessageRecord | null = null;
+    const updateAssistantMessage = (update: (message: MessageRecord) => Partial<MessageRecord>) => {
+      setPendingMessage(prev => prev && prev.id === assistantMessage?.id ? { ...prev, ...update(prev) } : prev);
+    };
 
     try {
-      const response = await chatService.processQuery(input, activeContext.id);
-      
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      let activeConversationId = conversationId;
+      if (!activeConversationId) {
+        activeConversationId = (await db.createConversation(activeContext.id, conversationTitle(query))).id;
+        onConversationChange(activeConversationId);
+      }
+
+      await db.saveMessage({
+        id: uuidv4(),
+        conversationId: activeConversationId,
+        role: 'user',
+        content: input,
+        createdAt: new Date().toISOString(),
+        contextId: activeContext.id
+      });
+
+      assistantMessage = {
+        id: uuidv4(),
+        conversationId: activeConversationId,
         role: 'assistant',
-        content: response.answer,
-        timestamp: new Date(),
-        sources: response.sources
+        content: '',
+        createdAt: new Date().toISOString(),
+        contextId: activeContext.id,
+        provider: activeProvider,
+        model: activeModel
       };
+      setPendingMessage(assistantMessage);
+      setStreamingMessageId(assistantMessage.id);
 
-      setMessages(prev => [...prev, assistantMessage]);
+      const response = await chatService.processQuery(query, activeContext.id, {
+        mode: scopeMode,
+        tags: scopeTags,
+        filters: buildQueryFilters(filters)
+      }, {
+        onSources: (sources, transformations) => updateAssistantMessage(() => ({ sources, transformations })),
+        onToken: (token) => updateAssistantMessage(message => ({ content: message.content + token })),
+        signal: abortController.signal,
+        history
+      });
+
+      // Answers that skip the model, such as "nothing found", arrive only here
+      const answer: MessageRecord = {
+        ...assistantMessage,
+        content: response.answer,
+        sources: response.sources,
+        transformations: response.transformations,
+        standaloneQuery: response.standaloneQuery,
+        stopped: abortController.signal.aborted
+      };
+      setPendingMessage(answer);
+      await db.saveMessage(answer);
     } catch (err) {
       console.error('Error processing query:', err);
       setError(err instanceof Error ? err.message : 'An error occurred while processing your query.');
-      
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: `Error: ${err instanceof Error ? err.message : 'An error occurred while processing your query.'}`,
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
+
+      // Errors saving the question itself are only shown above the chat
+      if (assistantMessage) {
+        const errorMessage: MessageRecord = {
+          ...assistantMessage,
+          content: `Error: ${err instanceof Error ? err.message : 'An error occurred while processing your query.'}`,
+          error: true
+        };
+        setPendingMessage(errorMessage);
+        await db.saveMessage(errorMessage).catch(saveError => console.error('Error saving message:', saveError));
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const updateInput = (value: string, caretPosition: number) => {
+    setInput(value);
+    setCaret(caretPosition);
+    // Put the caret back after React re-renders the textarea
+    setTimeout(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caretPosition, caretPosition);
+    });
+  };
+
+  const applyFilterSuggestion = (value: string) => {
+    if (!filterCompletion) return;
+    const inserted = `${formatFilter(filterCompletion.key, value)} `;
+    const before = input.slice(0, filterCompletion.start) + inserted;
+    updateInput(before + input.slice(caret).trimStart(), before.length);
+  };
+
+  const handleRemoveFilter = (filter: QueryFilter) => {
+    const updated = removeFilter(input, filter);
+    updateInput(updated, updated.length);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Tab' && filterSuggestions.length > 0) {
+      e.preventDefault();
+      applyFilterSuggestion(filterSuggestions[0]);
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -174,11 +351,11 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
     let hasValidKey = false;
     let hasValidModel = false;
     
-    if (activeProvider === 'openai' && openaiApiKey.trim()) {
-      chatService.setOpenAIApiKey(openaiApiKey);
-      hasValidKey = true;
-    } else if (activeProvider === 'gemini' && geminiApiKey.trim()) {
-      chatService.setGeminiApiKey(geminiApiKey);
+    if (isProviderReady) {
+      chatService.setApiKey(activeProvider, activeApiKey);
+      if (providerDefinition.needsBaseUrl) {
+        chatService.setBaseUrl(activeProvider, activeBaseUrl);
+      }
       hasValidKey = true;
     }
     
@@ -192,9 +369,11 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
       setShowSettings(false);
       setError(null);
     } else if (!hasValidKey) {
-      setError(`Please enter a valid API key for ${activeProvider === 'openai' ? 'OpenAI' : 'Google Gemini'}.`);
+      setError(providerDefinition.needsBaseUrl && !activeBaseUrl.trim()
+        ? `Please enter the server URL for ${providerDefinition.name}.`
+        : `Please enter a valid API key for ${providerDefinition.name}.`);
     } else {
-      setError(`Please select a model for ${activeProvider === 'openai' ? 'OpenAI' : 'Google Gemini'}.`);
+      setError(`Please select a model for ${providerDefinition.name}.`);
     }
   };
 
@@ -217,16 +396,12 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
   };
 
   const viewDocument = (documentId: string, content: string, documentName: string, metadata: any) => {
-    // Create highlights from the content
+    // Create highlights from the content, pointing at the region captured during ingestion
     const highlights = [{
       text: content,
       page: metadata.pageNumber,
-      position: metadata.position ? {
-        x: 0,
-        y: 0,
-        width: 0,
-        height: 0
-      } : undefined
+      position: metadata.boundingBox,
+      pageSize: metadata.pageSize
     }];
 
     onDocumentSelect({
@@ -242,6 +417,16 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
     setInput(question);
   };
 
+  const toggleScopeTag = (tag: string) => {
+    setScopeTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const scopeOptions: Array<{ mode: RetrievalScopeMode; label: string }> = [
+    { mode: 'context', label: `${activeContext.name} only` },
+    { mode: 'tags', label: 'Tagged documents' },
+    { mode: 'library', label: 'Whole library' }
+  ];
+
   return (
     <div className="flex flex-col h-full">
       <div className="flex justify-between items-center mb-4">
@@ -263,77 +448,80 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Select LLM Provider
             </label>
-            <div className="flex space-x-4">
-              <button
-                onClick={() => setActiveProvider('openai')}
-                className={`px-4 py-2 rounded-md flex items-center ${
-                  activeProvider === 'openai'
-                    ? 'bg-blue-100 border-blue-500 border text-blue-700'
-                    : 'bg-white border border-gray-300 text-gray-700'
-                }`}
-              >
-                {activeProvider === 'openai' && <Check className="h-4 w-4 mr-1" />}
-                OpenAI
-              </button>
-              <button
-                onClick={() => setActiveProvider('gemini')}
-                className={`px-4 py-2 rounded-md flex items-center ${
-                  activeProvider === 'gemini'
-                    ? 'bg-blue-100 border-blue-500 border text-blue-700'
-                    : 'bg-white border border-gray-300 text-gray-700'
-                }`}
-              >
-                {activeProvider === 'gemini' && <Check className="h-4 w-4 mr-1" />}
-                Google Gemini
-              </button>
+            <div className="flex flex-wrap gap-2">
+              {getLLMProviders().map(provider => (
+                <button
+                  key={provider.type}
+                  onClick={() => setActiveProvider(provider.type)}
+                  className={`px-4 py-2 rounded-md flex items-center ${
+                    activeProvider === provider.type
+                      ? 'bg-blue-100 border-blue-500 border text-blue-700'
+                      : 'bg-white border border-gray-300 text-gray-700'
+                  }`}
+                >
+                  {activeProvider === provider.type && <Check className="h-4 w-4 mr-1" />}
+                  {provider.name}
+                  {provider.onPrem && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded bg-green-100 text-green-800 text-xs" title="Documents are sent only to your own server">
+                      On-prem
+                    </span>
+                  )}
+                </button>
+              ))}
             </div>
           </div>
           
           <div className="space-y-4">
-            {/* OpenAI API Key - only show when OpenAI is selected */}
-            {activeProvider === 'openai' && (
-              <div>
-                <label htmlFor="openaiApiKey" className="block text-sm font-medium text-gray-700 mb-1">
-                  OpenAI API Key <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="password"
-                  id="openaiApiKey"
-                  value={openaiApiKey}
-                  onChange={(e) => setOpenaiApiKey(e.target.value)}
-                  className={`w-full p-2 border rounded-md ${
-                    !openaiApiKey
-                      ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
-                      : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
-                  }`}
-                  placeholder="sk-..."
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Required for OpenAI. Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">OpenAI dashboard</a>.
-                </p>
-              </div>
-            )}
-            
-            {/* Gemini API Key - only show when Gemini is selected */}
-            {activeProvider === 'gemini' && (
+            {/* API key, only asked for by providers that use one */}
+            <div>
+              <label htmlFor="llmApiKey" className="block text-sm font-medium text-gray-700 mb-1">
+                {providerDefinition.name} API Key {providerDefinition.apiKey === 'required'
+                  ? <span className="text-red-500">*</span>
+                  : <span className="font-normal text-gray-500">(optional)</span>}
+              </label>
+              <input
+                type="password"
+                id="llmApiKey"
+                value={activeApiKey}
+                onChange={(e) => setApiKeys(prev => ({ ...prev, [activeProvider]: e.target.value }))}
+                className={`w-full p-2 border rounded-md ${
+                  providerDefinition.apiKey === 'required' && !activeApiKey
+                    ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                    : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                }`}
+                placeholder={providerDefinition.apiKeyPlaceholder}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {providerDefinition.apiKeyHelpUrl ? (
+                  <>
+                    Required for {providerDefinition.name}. Get your API key from <a href={providerDefinition.apiKeyHelpUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{providerDefinition.name}</a>.
+                  </>
+                ) : (
+                  'Only needed if your server is set up to require one.'
+                )}
+              </p>
+            </div>
+
+            {/* Server address for self-hosted providers */}
+            {providerDefinition.needsBaseUrl && (
               <div>
-                <label htmlFor="geminiApiKey" className="block text-sm font-medium text-gray-700 mb-1">
-                  Google Gemini API Key <span className="text-red-500">*</span>
+                <label htmlFor="llmBaseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                  Server URL <span className="text-red-500">*</span>
                 </label>
                 <input
-                  type="password"
-                  id="geminiApiKey"
-                  value={geminiApiKey}
-                  onChange={(e) => setGeminiApiKey(e.target.value)}
+                  type="text"
+                  id="llmBaseUrl"
+                  value={activeBaseUrl}
+                  onChange={(e) => setBaseUrls(prev => ({ ...prev, [activeProvider]: e.target.value }))}
                   className={`w-full p-2 border rounded-md ${
-                    !geminiApiKey
+                    !activeBaseUrl
                       ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
                       : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
                   }`}
-                  placeholder="AI..."
+                  placeholder={providerDefinition.defaultBaseUrl}
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Required for Gemini. Get your API key from <a href="https://ai.google.dev/" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Google AI Studio</a>.
+                  Any server with the OpenAI chat API, e.g. Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1) or vLLM (http://localhost:8000/v1). The server must allow requests from this page (CORS).
                 </p>
               </div>
             )}
@@ -346,7 +534,7 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
                 </label>
                 <button 
                   onClick={handleRefreshModels}
-                  disabled={isLoadingModels || (!openaiApiKey && activeProvider === 'openai') || (!geminiApiKey && activeProvider === 'gemini')}
+                  disabled={isLoadingModels || !isProviderReady}
                   className="text-xs flex items-center text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
                 >
                   <RefreshCw className={`h-3 w-3 mr-1 ${isLoadingModels ? 'animate-spin' : ''}`} />
@@ -380,14 +568,263 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
                 </div>
               ) : (
                 <div className="bg-gray-100 p-2 rounded-md text-center text-sm text-gray-600">
-                  {(activeProvider === 'openai' && !openaiApiKey) || (activeProvider === 'gemini' && !geminiApiKey)
-                    ? `Enter your ${activeProvider === 'openai' ? 'OpenAI' : 'Google Gemini'} API key to see available models`
+                  {!isProviderReady
+                    ? `Enter your ${providerDefinition.name} ${providerDefinition.needsBaseUrl && !activeBaseUrl.trim() ? 'server URL' : 'API key'} to see available models`
                     : 'No models available'}
                 </div>
               )}
             </div>
           </div>
           
+          <div className="mt-6 pt-4 border-t border-blue-100">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-medium text-blue-800">
+                Generation Settings ({providerDefinition.name}, {activeContext.name})
+              </h3>
+              <button
+                onClick={() => updateGenerationSettings(defaultGenerationSettings[activeProvider])}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="temperature" className="block text-sm font-medium text-gray-700 mb-1">
+                  Temperature: {generationSettings.temperature.toFixed(1)}
+                </label>
+                <input
+                  type="range"
+                  id="temperature"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={generationSettings.temperature}
+                  onChange={(e) => updateGenerationSettings({ temperature: Number(e.target.value) })}
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Lower values keep answers closer to the documents; higher values vary the wording more.
+                </p>
+              </div>
+              <div>
+                <label htmlFor="topP" className="block text-sm font-medium text-gray-700 mb-1">
+                  Top-p: {generationSettings.topP.toFixed(2)}
+                </label>
+                <input
+                  type="range"
+                  id="topP"
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={generationSettings.topP}
+                  onChange={(e) => updateGenerationSettings({ topP: Number(e.target.value) })}
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Only the most likely words making up this share of probability are considered. Change this or the temperature, not both.
+                </p>
+              </div>
+              <div>
+                <label htmlFor="maxOutputTokens" className="block text-sm font-medium text-gray-700 mb-1">
+                  Maximum answer length (tokens)
+                </label>
+                <input
+                  type="number"
+                  id="maxOutputTokens"
+                  min={100}
+                  max={32000}
+                  step={100}
+                  value={generationSettings.maxOutputTokens}
+                  onChange={(e) => updateGenerationSettings({ maxOutputTokens: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="systemPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+                  System prompt
+                </label>
+                <textarea
+                  id="systemPrompt"
+                  value={generationSettings.systemPrompt}
+                  onChange={(e) => updateGenerationSettings({ systemPrompt: e.target.value })}
+                  placeholder={activeContext.promptPrefix}
+                  rows={3}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave empty to use the built-in instructions for {activeContext.name}. Instructions to answer only from the documents and cite sources are always added.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 pt-4 border-t border-blue-100">
+            <h3 className="font-medium text-blue-800 mb-2">Retrieval Settings ({activeContext.name})</h3>
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="fusionMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                  Combine keyword and semantic results with
+                </label>
+                <select
+                  id="fusionMethod"
+                  value={retrievalSettings.fusionMethod}
+                  onChange={(e) => updateRetrievalSettings({ fusionMethod: e.target.value as RetrievalSettings['fusionMethod'] })}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="rrf">Reciprocal rank fusion</option>
+                  <option value="weighted">Weighted score blending</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="keywordWeight" className="block text-sm font-medium text-gray-700 mb-1">
+                  Keyword weight: {Math.round(retrievalSettings.keywordWeight * 100)}%
+                </label>
+                <input
+                  type="range"
+                  id="keywordWeight"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={retrievalSettings.keywordWeight}
+                  onChange={(e) => updateRetrievalSettings({ keywordWeight: Number(e.target.value) })}
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Higher values favour exact matches such as policy numbers, NI numbers and scheme names.
+                </p>
+              </div>
+              <div>
+                <label htmlFor="minSimilarity" className="block text-sm font-medium text-gray-700 mb-1">
+                  Minimum similarity: {Math.round(retrievalSettings.minSimilarity * 100)}%
+                </label>
+                <input
+                  type="range"
+                  id="minSimilarity"
+                  min={0}
+                  max={0.9}
+                  step={0.05}
+                  value={retrievalSettings.minSimilarity}
+                  onChange={(e) => updateRetrievalSettings({ minSimilarity: Number(e.target.value) })}
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Passages less similar to the question are ignored; if none are left you are told the answer isn't in the documents.
+                </p>
+              </div>
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={retrievalSettings.useMmr}
+                    onChange={(e) => updateRetrievalSettings({ useMmr: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Prefer varied results
+                </label>
+                {retrievalSettings.useMmr && (
+                  <>
+                    <label htmlFor="mmrLambda" className="block text-sm text-gray-700 mt-2 mb-1">
+                      Relevance vs variety: {Math.round(retrievalSettings.mmrLambda * 100)}% relevance
+                    </label>
+                    <input
+                      type="range"
+                      id="mmrLambda"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={retrievalSettings.mmrLambda}
+                      onChange={(e) => updateRetrievalSettings({ mmrLambda: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Skips passages that repeat ones already found, such as the same wording on several pages.
+                </p>
+              </div>
+              <div>
+                <label htmlFor="neighborWindow" className="block text-sm font-medium text-gray-700 mb-1">
+                  Surrounding text for each result
+                </label>
+                <select
+                  id="neighborWindow"
+                  value={retrievalSettings.neighborWindow}
+                  onChange={(e) => updateRetrievalSettings({ neighborWindow: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value={0}>None</option>
+                  <option value={1}>1 chunk either side</option>
+                  <option value={2}>2 chunks either side</option>
+                  <option value={3}>3 chunks either side</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="contextTokenBudget" className="block text-sm font-medium text-gray-700 mb-1">
+                  Document text per question (tokens)
+                </label>
+                <input
+                  type="number"
+                  id="contextTokenBudget"
+                  min={500}
+                  step={500}
+                  value={retrievalSettings.contextTokenBudget}
+                  onChange={(e) => updateRetrievalSettings({ contextTokenBudget: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Lowered automatically for models with a smaller context window.
+                </p>
+              </div>
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={retrievalSettings.useReranker}
+                    onChange={(e) => updateRetrievalSettings({ useReranker: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Rerank results with the chat model
+                </label>
+                {retrievalSettings.useReranker && (
+                  <>
+                    <label htmlFor="rerankCandidates" className="block text-sm text-gray-700 mt-2 mb-1">
+                      Candidates to score
+                    </label>
+                    <input
+                      type="number"
+                      id="rerankCandidates"
+                      min={5}
+                      max={100}
+                      value={retrievalSettings.rerankCandidates}
+                      onChange={(e) => updateRetrievalSettings({ rerankCandidates: Number(e.target.value) })}
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  More accurate ranking at the cost of extra calls to the model for each new question.
+                </p>
+              </div>
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={retrievalSettings.useQueryTransforms}
+                    onChange={(e) => updateRetrievalSettings({ useQueryTransforms: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Rewrite questions before searching
+                </label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Also searches with rewordings, sub-questions and a hypothetical answer written by the chat model, which helps with short or vague questions.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <EmbeddingSettingsPanel db={db} />
+
           <p className="text-xs text-gray-500 mt-4 mb-3">
             Your API keys are stored locally in your browser and never sent to our servers.
           </p>
@@ -443,10 +880,73 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
                       : 'bg-white border border-gray-200'
                   }`}
                 >
-                  <div className="prose prose-sm max-w-none">
-                    <ReactMarkdown>{message.content}</ReactMarkdown>
-                  </div>
+                  {message.id === streamingMessageId && !message.content ? (
+                    <div className="flex items-center text-sm text-gray-500">
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      {message.sources ? 'Writing answer...' : 'Searching documents...'}
+                    </div>
+                  ) : (
+                    <div className="prose prose-sm max-w-none">
+                      <ReactMarkdown>{message.content}</ReactMarkdown>
+                    </div>
+                  )}
+                  {message.stopped && (
+                    <p className="mt-1 text-xs italic text-gray-400">Stopped</p>
+                  )}
+                  {message.standaloneQuery && (
+                    <p className="mt-2 text-xs text-gray-500" title="Your follow-up question, rewritten using the earlier conversation">
+                      Searched for: <span className="italic">{message.standaloneQuery}</span>
+                    </p>
+                  )}
                   
+                  {message.transformations && (
+                    message.transformations.paraphrases.length > 0 ||
+                    message.transformations.subQuestions.length > 0 ||
+                    message.transformations.hypotheticalAnswer
+                  ) && (
+                    <div className="mt-3 pt-2 border-t border-gray-200 text-xs">
+                      <button
+                        onClick={() => toggleTransformations(message.id)}
+                        className="flex items-center font-medium text-gray-500 hover:text-gray-700"
+                      >
+                        {expandedTransformations.has(message.id)
+                          ? <ChevronDown className="h-3 w-3 mr-1" />
+                          : <ChevronRight className="h-3 w-3 mr-1" />}
+                        Also searched for
+                      </button>
+                      {expandedTransformations.has(message.id) && (
+                        <div className="mt-1 space-y-2 text-gray-600">
+                          {message.transformations.paraphrases.length > 0 && (
+                            <div>
+                              <p className="font-medium text-gray-500">Rewordings</p>
+                              <ul className="list-disc ml-4">
+                                {message.transformations.paraphrases.map((paraphrase, index) => (
+                                  <li key={index}>{paraphrase}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          {message.transformations.subQuestions.length > 0 && (
+                            <div>
+                              <p className="font-medium text-gray-500">Sub-questions</p>
+                              <ul className="list-disc ml-4">
+                                {message.transformations.subQuestions.map((subQuestion, index) => (
+                                  <li key={index}>{subQuestion}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          {message.transformations.hypotheticalAnswer && (
+                            <div>
+                              <p className="font-medium text-gray-500">Hypothetical answer (used only to find similar passages)</p>
+                              <p className="italic">{message.transformations.hypotheticalAnswer}</p>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {message.sources && message.sources.length > 0 && (
                     <div className="mt-3 pt-2 border-t border-gray-200">
                       <p className="text-xs font-medium text-gray-500 mb-1">Sources:</p>
@@ -457,6 +957,22 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
                               <span className="font-medium text-gray-700">
                                 {source.documentName}
                                 {source.metadata.pageNumber ? ` (Page ${source.metadata.pageNumber})` : ''}
+                                {source.metadata.sheetName ? ` (${source.metadata.sheetName}, rows ${source.metadata.rowRange?.start}-${source.metadata.rowRange?.end})` : ''}
+                                {source.metadata.ocr && (
+                                  <span className="ml-1 font-normal text-gray-500" title="Text read with OCR">
+                                    [OCR{typeof source.metadata.ocrConfidence === 'number' ? ` ${Math.round(source.metadata.ocrConfidence)}%` : ''}]
+                                  </span>
+                                )}
+                                {source.similarity !== undefined && (
+                                  <span className="ml-1 font-normal text-gray-500" title="Similarity to your question">
+                                    [{Math.round(source.similarity * 100)}% similar]
+                                  </span>
+                                )}
+                                {source.rerankScore !== undefined && (
+                                  <span className="ml-1 font-normal text-gray-500" title="Relevance judged by the reranker">
+                                    [Relevance {source.rerankScore}/10]
+                                  </span>
+                                )}
                               </span>
                               <button
                                 onClick={() => viewDocument(
@@ -471,6 +987,9 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
                                 View
                               </button>
                             </div>
+                            {source.metadata.headingPath?.length > 0 && (
+                              <p className="text-gray-500 mb-1">{source.metadata.headingPath.join(' > ')}</p>
+                            )}
                             <p className="text-gray-600 line-clamp-2">{source.content}</p>
                           </div>
                         ))}
@@ -484,7 +1003,8 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
                         message.role === 'user' ? 'text-blue-200' : 'text-gray-400'
                       }`}
                     >
-                      {message.timestamp.toLocaleTimeString()}
+                      {new Date(message.createdAt).toLocaleTimeString()}
+                      {message.model && ` · ${message.model}`}
                     </span>
                   </div>
                 </div>
@@ -495,36 +1015,124 @@ export function ChatInterface({ db, onDocumentSelect, activeContext }: ChatInter
         )}
       </div>
 
+      <div className="mb-2">
+        <div className="flex items-center flex-wrap gap-2 text-xs">
+          <span className="text-gray-600 font-medium">Search in:</span>
+          {scopeOptions.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setScopeMode(option.mode)}
+              className={`px-2 py-1 rounded-md flex items-center ${
+                scopeMode === option.mode
+                  ? 'bg-blue-100 border-blue-500 border text-blue-700'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {scopeMode === option.mode && <Check className="h-3 w-3 mr-1" />}
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {scopeMode === 'tags' && (
+          <div className="flex items-center flex-wrap gap-2 mt-2 text-xs">
+            <Tag className="h-3 w-3 text-gray-500" />
+            {availableTags.length === 0 ? (
+              <span className="text-gray-500">No tagged documents yet. Add tags when uploading documents.</span>
+            ) : (
+              availableTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleScopeTag(tag)}
+                  className={`px-2 py-1 rounded-full ${
+                    scopeTags.includes(tag)
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      {inputFilters.length > 0 && (
+        <div className="flex items-center flex-wrap gap-2 mb-2 text-xs">
+          <span className="text-gray-600 font-medium">Filters:</span>
+          {inputFilters.map((filter, index) => (
+            <span key={index} className="flex items-center px-2 py-1 rounded-full bg-purple-100 text-purple-800">
+              {filter.key}: {filter.value}
+              <button
+                onClick={() => handleRemoveFilter(filter)}
+                className="ml-1 text-purple-600 hover:text-purple-900"
+                title="Remove filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="relative">
+        {filterSuggestions.length > 0 && (
+          <div className="absolute bottom-full left-0 mb-1 w-full max-w-md bg-white border border-gray-200 rounded-md shadow-lg z-10 text-sm">
+            {filterSuggestions.map(value => (
+              <button
+                key={value}
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea
+                  e.preventDefault();
+                  applyFilterSuggestion(value);
+                }}
+                className="block w-full text-left px-3 py-1 hover:bg-blue-50 truncate"
+              >
+                <span className="text-gray-400">{filterCompletion?.key}:</span> {value}
+              </button>
+            ))}
+          </div>
+        )}
         <textarea
+          ref={inputRef}
           value={input}
-          onChange={(e) => setInput(e.target.value)}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setCaret(e.target.selectionStart);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
           onKeyDown={handleKeyDown}
           placeholder={`Ask a question about your ${activeContext.name.toLowerCase()}...`}
           className="w-full p-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
           rows={3}
           disabled={isLoading}
         />
-        <button
-          onClick={handleSendMessage}
-          disabled={isLoading || !input.trim()}
-          className={`absolute right-3 bottom-3 p-2 rounded-full ${
-            isLoading || !input.trim()
-              ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-              : 'bg-blue-600 text-white hover:bg-blue-700'
-          }`}
-        >
-          {isLoading ? (
-            <Loader2 className="h-5 w-5 animate-spin" />
-          ) : (
+        {isLoading ? (
+          <button
+            onClick={handleStop}
+            className="absolute right-3 bottom-3 p-2 rounded-full bg-red-600 text-white hover:bg-red-700"
+            title="Stop"
+          >
+            <Square className="h-5 w-5" />
+          </button>
+        ) : (
+          <button
+            onClick={handleSendMessage}
+            disabled={!input.trim()}
+            className={`absolute right-3 bottom-3 p-2 rounded-full ${
+              !input.trim()
+                ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
             <Send className="h-5 w-5" />
-          )}
-        </button>
+          </button>
+        )}
       </div>
       
       {isLoading && (
         <div className="text-center text-sm text-gray-500 mt-2">
-          Processing your query with {activeProvider === 'openai' ? 'OpenAI' : 'Google Gemini'} 
+          Processing your query with {providerDefinition.name} 
           {activeModel && ` (${availableModels.find(m => m.id === activeModel)?.name || activeModel})`}...
         </div>
       )}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Check, MessageSquare, Pencil, Plus, Search, Trash2, X } from 'lucide-react';
+import { ConversationRecord, Database } from '../lib/db';
+import { ProjectContext } from '../lib/types';
+
+interface ConversationSidebarProps {
+  db: Database;
+  activeContext: ProjectContext;
+  activeConversationId: string | null;
+  // null starts a new conversation
+  onSelect: (conversationId: string | null) => void;
+}
+
+export function ConversationSidebar({ db, activeContext, activeConversationId, onSelect }: ConversationSidebarProps) {
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const conversations = useLiveQuery(
+    () => db.searchConversations(activeContext.id, search),
+    [db, activeContext.id, search]
+  );
+
+  const startRename = (conversation: ConversationRecord) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const saveRename = async () => {
+    if (editingId && editingTitle.trim()) {
+      await db.renameConversation(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (conversation: ConversationRecord) => {
+    if (!window.confirm(`Delete the conversation "${conversation.title}"? This cannot be undone.`)) {
+      return;
+    }
+    await db.deleteConversation(conversation.id);
+    if (conversation.id === activeConversationId) {
+      onSelect(null);
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-700 flex items-center">
+          <MessageSquare className="h-4 w-4 mr-1" />
+          Conversations
+        </h3>
+        <button
+          onClick={() => onSelect(null)}
+          className="text-blue-600 hover:text-blue-800 flex items-center text-xs"
+          title="Start a new conversation"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          New
+        </button>
+      </div>
+
+      <div className="relative mb-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search conversations..."
+          className="w-full pl-7 pr-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+        <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-3 w-3 text-gray-400" />
+      </div>
+
+      {conversations && conversations.length === 0 && (
+        <p className="text-xs text-gray-500">
+          {search.trim() ? 'No conversations match your search.' : `No conversations in ${activeContext.name} yet.`}
+        </p>
+      )}
+
+      <ul className="space-y-1 max-h-96 overflow-y-auto">
+        {conversations?.map(conversation => (
+          <li
+            key={conversation.id}
+            className={`group rounded-md text-sm ${
+              conversation.id === activeConversationId ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100 text-gray-700'
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <div className="flex items-center p-1">
+                <input
+                  type="text"
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-grow min-w-0 px-1 py-0.5 border border-gray-300 rounded text-sm text-gray-700"
+                  autoFocus
+                />
+                <button onClick={saveRename} className="ml-1 text-green-600 hover:text-green-800" title="Save">
+                  <Check className="h-4 w-4" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="ml-1 text-gray-500 hover:text-gray-700" title="Cancel">
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center">
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  className="flex-grow min-w-0 text-left px-2 py-1"
+                >
+                  <div className="truncate">{conversation.title}</div>
+                  <div className="text-xs text-gray-500">{new Date(conversation.updatedAt).toLocaleString()}</div>
+                </button>
+                <div className="hidden group-hover:flex items-center pr-1">
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className="p-1 text-gray-500 hover:text-gray-700"
+                    title="Rename"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(conversation)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -15,7 +15,11 @@ interface DocumentViewerProps {
         y: number; 
         width: number; 
         height: number 
-      } 
+      };
+      pageSize?: {
+        width: number;
+        height: number;
+      };
     }[];
   };
 }
@@ -136,6 +140,28 @@ export function DocumentViewer({ document }: DocumentViewerProps) {
                 {highlight.page && (
                   <p className="text-xs text-gray-500 mt-1">Page {highlight.page}</p>
                 )}
+                {activeHighlight === index && highlight.position && highlight.pageSize && (
+                  <div className="mt-2 flex items-start">
+                    {/* Miniature of the page showing where the cited text sits */}
+                    <div
+                      className="relative bg-white border border-gray-300 shadow-sm flex-shrink-0"
+                      style={{ width: 120, height: (120 * highlight.pageSize.height) / highlight.pageSize.width }}
+                    >
+                      <div
+                        className="absolute bg-yellow-300 bg-opacity-60 border border-yellow-500"
+                        style={{
+                          left: `${(highlight.position.x / highlight.pageSize.width) * 100}%`,
+                          top: `${(highlight.position.y / highlight.pageSize.height) * 100}%`,
+                          width: `${(highlight.position.width / highlight.pageSize.width) * 100}%`,
+                          height: `${(highlight.position.height / highlight.pageSize.height) * 100}%`
+                        }}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 ml-2">
+                      Highlighted region: {Math.round(highlight.position.x)}, {Math.round(highlight.position.y)} ({Math.round(highlight.position.width)} &times; {Math.round(highlight.position.height)} pt)
+                    </p>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { Database } from '../lib/db';
+import { EmbeddingProviderType, EmbeddingSettings } from '../lib/embeddingProvider';
+import {
+  createEmbeddingProvider,
+  getEmbeddingModelId,
+  getEmbeddingSettings,
+  reembedLibrary,
+  saveEmbeddingSettings
+} from '../lib/embeddingService';
+
+interface EmbeddingSettingsPanelProps {
+  db: Database;
+}
+
+const providerOptions: Array<{ value: EmbeddingProviderType; label: string; defaultModel?: string }> = [
+  { value: 'use', label: 'Universal Sentence Encoder (in browser)' },
+  { value: 'openai', label: 'OpenAI', defaultModel: 'text-embedding-3-small' },
+  { value: 'gemini', label: 'Google Gemini', defaultModel: 'text-embedding-004' },
+  { value: 'local', label: 'Local OpenAI-compatible server' }
+];
+
+export function EmbeddingSettingsPanel({ db }: EmbeddingSettingsPanelProps) {
+  const [settings, setSettings] = useState<EmbeddingSettings>(() => getEmbeddingSettings());
+  const [reembedProgress, setReembedProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const modelCounts = useLiveQuery(() => db.getEmbeddingModelCounts(), [db]) || {};
+
+  const activeModelId = getEmbeddingModelId(settings);
+  const staleModels = Object.entries(modelCounts).filter(([model]) => model !== activeModelId);
+  const selectedOption = providerOptions.find(option => option.value === settings.provider);
+
+  const updateSettings = (changes: Partial<EmbeddingSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveEmbeddingSettings(updated);
+  };
+
+  const handleProviderChange = (provider: EmbeddingProviderType) => {
+    // Model names are provider specific
+    updateSettings({ provider, model: undefined });
+  };
+
+  const handleReembed = async () => {
+    setError(null);
+    try {
+      // Read the settings again so API keys saved in the LLM settings are picked up
+      const provider = createEmbeddingProvider(getEmbeddingSettings());
+      await reembedLibrary(db, provider, (completed, total) => setReembedProgress({ completed, total }));
+    } catch (err) {
+      console.error('Error re-embedding library:', err);
+      setError(err instanceof Error ? err.message : 'Failed to re-embed the library');
+    } finally {
+      setReembedProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-blue-100">
+      <h3 className="font-medium text-blue-800 mb-2">Embedding Settings</h3>
+      <div className="space-y-3">
+        <div>
+          <label htmlFor="embeddingProvider" className="block text-sm font-medium text-gray-700 mb-1">
+            Embedding provider
+          </label>
+          <select
+            id="embeddingProvider"
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as EmbeddingProviderType)}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+          >
+            {providerOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {(settings.provider === 'openai' || settings.provider === 'gemini') && (
+            <p className="text-xs text-gray-500 mt-1">Uses the API key from the LLM settings above.</p>
+          )}
+        </div>
+
+        {settings.provider === 'local' && (
+          <>
+            <div>
+              <label htmlFor="embeddingBaseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                Server base URL
+              </label>
+              <input
+                type="text"
+                id="embeddingBaseUrl"
+                value={settings.baseUrl || ''}
+                onChange={(e) => updateSettings({ baseUrl: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                placeholder="http://localhost:11434/v1"
+              />
+            </div>
+            <div>
+              <label htmlFor="localEmbeddingApiKey" className="block text-sm font-medium text-gray-700 mb-1">
+                API key (optional)
+              </label>
+              <input
+                type="password"
+                id="localEmbeddingApiKey"
+                value={settings.apiKey || ''}
+                onChange={(e) => updateSettings({ apiKey: e.target.value })}
+                className="w-full p-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </>
+        )}
+
+        {settings.provider !== 'use' && (
+          <div>
+            <label htmlFor="embeddingModel" className="block text-sm font-medium text-gray-700 mb-1">
+              Embedding model
+            </label>
+            <input
+              type="text"
+              id="embeddingModel"
+              value={settings.model || ''}
+              onChange={(e) => updateSettings({ model: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-md text-sm"
+              placeholder={selectedOption?.defaultModel || 'nomic-embed-text'}
+            />
+          </div>
+        )}
+
+        {staleModels.length > 0 && (
+          <div className="bg-yellow-50 p-2 rounded-md flex items-start text-xs text-yellow-800">
+            <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+            <span>
+              {staleModels.map(([model, count]) => `${count} chunks use ${model}`).join(', ')}.
+              Vectors from other models cannot be compared with {activeModelId}, so re-embed the library to search them.
+            </span>
+          </div>
+        )}
+
+        <button
+          onClick={handleReembed}
+          disabled={!!reembedProgress}
+          className="text-sm flex items-center text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          {reembedProgress ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              Re-embedding {reembedProgress.completed} of {reembedProgress.total} chunks...
+            </>
+          ) : (
+            <>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Re-embed library with {activeModelId}
+            </>
+          )}
+        </button>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
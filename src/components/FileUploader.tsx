@@ -1,13 +1,16 @@
-import { useCallback, useState, useEffect } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { useCallback, useState, useEffect, useRef } from 'react';
+import { useDropzone, FileRejection } from 'react-dropzone';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { Database } from '../lib/db';
 import { DocumentProcessor } from '../lib/documentProcessor';
-import { FileUp, File, CheckCircle, AlertCircle, Info, Eye, Tag, Trash2 } from 'lucide-react';
+import { IngestionQueue, isJobFinished, sortJobs, summarizeJobs } from '../lib/ingestionQueue';
+import { ArchiveImporter, ImportEntry, SkippedEntry, getFolderTags } from '../lib/archiveImporter';
+import { FileUp, File, CheckCircle, AlertCircle, Info, Eye, Tag, Trash2, Paperclip, FolderOpen, Loader2, Copy, History, RotateCcw, XCircle, RefreshCw } from 'lucide-react';
 import { ProjectContext } from '../lib/types';
 
 interface FileUploaderProps {
   db: Database;
-  onProcessingUpdate: (status: { isProcessing: boolean; progress: number; message: string }) => void;
+  ingestionQueue: IngestionQueue;
   onDocumentSelect?: (document: {
     id: string;
     name: string;
@@ -17,37 +20,92 @@ interface FileUploaderProps {
   activeContext: ProjectContext;
 }
 
-export function FileUploader({ db, onProcessingUpdate, onDocumentSelect, activeContext }: FileUploaderProps) {
-  const [files, setFiles] = useState<File[]>([]);
-  const [processedFiles, setProcessedFiles] = useState<string[]>([]);
-  const [failedFiles, setFailedFiles] = useState<{ name: string; error: string }[]>([]);
-  const [documents, setDocuments] = useState<Array<{ id: string; name: string; type: string; uploadDate: string; context?: string }>>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
+const archiveImporter = new ArchiveImporter(DocumentProcessor.isSupportedFile);
+
+interface DocumentListItem {
+  id: string;
+  name: string;
+  type: string;
+  uploadDate: string;
+  context?: string;
+  // Folder path and name within the upload it came from; the name alone for single files
+  relativePath: string;
+  parentDocumentId?: string;
+  versionGroupId: string;
+  version: number;
+  isCurrentVersion: boolean;
+}
+
+export function FileUploader({ db, ingestionQueue, onDocumentSelect, activeContext }: FileUploaderProps) {
+  const [files, setFiles] = useState<ImportEntry[]>([]);
+  const [skippedEntries, setSkippedEntries] = useState<SkippedEntry[]>([]);
+  const [isExpanding, setIsExpanding] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Pending files, by path, the user chose to store as a new version (true) or separately (false)
+  const [versionChoices, setVersionChoices] = useState<Record<string, boolean>>({});
+  const [expandedVersionGroups, setExpandedVersionGroups] = useState<Set<string>>(new Set());
+  const [documents, setDocuments] = useState<DocumentListItem[]>([]);
+  const [isQueueing, setIsQueueing] = useState(false);
   const [documentTags, setDocumentTags] = useState<{ [fileIndex: number]: string[] }>({});
   const [newTag, setNewTag] = useState('');
 
-  const documentProcessor = new DocumentProcessor(db, onProcessingUpdate);
+  const jobs = sortJobs(useLiveQuery(() => db.jobs.toArray(), [db]) ?? []);
+  const queueSummary = summarizeJobs(jobs);
+  const completedJobCount = jobs.filter(job => job.status === 'completed').length;
+
+  const loadDocuments = useCallback(async () => {
+    const docs = await db.getDocuments();
+    setDocuments(docs.map(doc => ({
+      id: doc.id,
+      name: doc.name,
+      type: doc.type,
+      uploadDate: doc.uploadDate,
+      context: doc.metadata?.context,
+      relativePath: doc.metadata?.relativePath || doc.name,
+      parentDocumentId: doc.metadata?.parentDocumentId,
+      versionGroupId: doc.versionGroupId || doc.id,
+      version: doc.version || 1,
+      isCurrentVersion: doc.isCurrentVersion !== false
+    })));
+  }, [db]);
 
   useEffect(() => {
     // Load existing documents
-    const loadDocuments = async () => {
-      const docs = await db.getDocuments();
-      setDocuments(docs.map(doc => ({
-        id: doc.id,
-        name: doc.name,
-        type: doc.type,
-        uploadDate: doc.uploadDate,
-        context: doc.metadata?.context
-      })));
-    };
-
     loadDocuments();
-  }, [db, processedFiles]);
+  }, [loadDocuments, completedJobCount]);
+
+  useEffect(() => {
+    // React does not know the directory picker attributes, so set them directly
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    folderInputRef.current?.setAttribute('directory', '');
+  }, []);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    setFiles(prev => [...prev, ...acceptedFiles]);
+  const addFiles = useCallback(async (incomingFiles: File[], rejected: SkippedEntry[] = []) => {
+    setIsExpanding(true);
+    try {
+      // Expand ZIP archives and keep each file's path within the dropped folder or archive
+      const { entries, skipped } = await archiveImporter.expandFiles(incomingFiles);
+      setFiles(prev => [...prev, ...entries]);
+      setSkippedEntries(prev => [...prev, ...rejected, ...skipped]);
+    } finally {
+      setIsExpanding(false);
+    }
   }, []);
 
+  const onDrop = useCallback((acceptedFiles: File[], fileRejections: FileRejection[]) => {
+    addFiles(acceptedFiles, fileRejections.map(rejection => ({
+      path: rejection.file.name,
+      reason: rejection.errors[0]?.message || 'Unsupported file type'
+    })));
+  }, [addFiles]);
+
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
@@ -55,55 +113,70 @@ export function FileUploader({ db, onProcessingUpdate, onDocumentSelect, activeC
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
       'application/msword': ['.doc'],
       'image/*': ['.jpg', '.jpeg', '.png', '.tiff', '.bmp'],
-      'text/plain': ['.txt']
+      'text/plain': ['.txt'],
+      'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+      'message/rfc822': ['.eml'],
+      'application/mbox': ['.mbox'],
+      'application/vnd.ms-outlook': ['.msg'],
+      'application/zip': ['.zip']
     }
   });
 
-  const processFiles = async () => {
-    if (files.length === 0 || isProcessing) return;
+  const queueFiles = async () => {
+    if (files.length === 0 || isQueueing) return;
 
-    setIsProcessing(true);
-    const processed: string[] = [];
-    const failed: { name: string; error: string }[] = [];
-
-    for (const [index, file] of files.entries()) {
-      try {
-        onProcessingUpdate({
-          isProcessing: true,
-          progress: 0,
-          message: `Starting to process ${file.name}...`
-        });
+    setIsQueueing(true);
+    try {
+      await ingestionQueue.enqueue(files.map((entry, index) => {
+        const { file, relativePath, sourceArchive } = entry;
+        // Add context, original path and tags (including folder names) to metadata
+        const tags = Array.from(new Set([...getFolderTags(relativePath), ...(documentTags[index] || [])]));
+        const previousVersion = uploadsAsNewVersion(entry) ? findPreviousVersion(relativePath) : undefined;
 
-        // Add context and tags to metadata
-        const metadata = {
-          size: file.size,
-          lastModified: new Date(file.lastModified).toISOString(),
-          context: activeContext.id,
-          tags: documentTags[index] || []
+        return {
+          file,
+          relativePath,
+          metadata: {
+            size: file.size,
+            lastModified: new Date(file.lastModified).toISOString(),
+            context: activeContext.id,
+            tags,
+            ...(relativePath !== file.name && { relativePath }),
+            ...(sourceArchive && { sourceArchive })
+          },
+          versionOf: previousVersion?.versionGroupId
         };
+      }));
 
-        await documentProcessor.processFile(file, metadata);
-        processed.push(file.name);
-      } catch (error) {
-        console.error(`Error processing file ${file.name}:`, error);
-        failed.push({ 
-          name: file.name, 
-          error: error instanceof Error ? error.message : 'Unknown error occurred'
-        });
-      }
+      setFiles([]);
+      setDocumentTags({});
+      setVersionChoices({});
+      setSkippedEntries([]);
+    } catch (error) {
+      console.error('Error queueing files:', error);
+    } finally {
+      setIsQueueing(false);
     }
+  };
 
-    setProcessedFiles(prev => [...prev, ...processed]);
-    setFailedFiles(prev => [...prev, ...failed]);
-    setFiles([]);
-    setDocumentTags({});
-    setIsProcessing(false);
-    
-    onProcessingUpdate({
-      isProcessing: false,
-      progress: 100,
-      message: 'All files processed'
-    });
+  // A pending file with the same folder path and name as a current document in this context can
+  // replace it as a new version
+  const findPreviousVersion = (relativePath: string) => documents.find(
+    doc => doc.isCurrentVersion && !doc.parentDocumentId && doc.relativePath === relativePath && doc.context === activeContext.id
+  );
+
+  // Single files replace their earlier version unless the user says otherwise. Folders and archives
+  // often hold many files of the same name for different people, so their files are stored
+  // separately unless the user ticks the box.
+  const uploadsAsNewVersion = ({ file, relativePath, sourceArchive }: ImportEntry) =>
+    versionChoices[relativePath] ?? (relativePath === file.name && !sourceArchive);
+
+  const toggleNewVersion = (entry: ImportEntry) => {
+    setVersionChoices(prev => ({ ...prev, [entry.relativePath]: !uploadsAsNewVersion(entry) }));
   };
 
   const removeFile = (fileIndex: number) => {
@@ -150,12 +223,32 @@ export function FileUploader({ db, onProcessingUpdate, onDocumentSelect, activeC
   const handleRemoveDocument = async (documentId: string) => {
     try {
       await db.removeDocument(documentId);
-      setDocuments(prev => prev.filter(doc => doc.id !== documentId));
+      // Removing a parent also removes its children and may promote another version, so reload the list
+      await loadDocuments();
     } catch (error) {
       console.error('Error removing document:', error);
     }
   };
 
+  const handleMakeCurrent = async (documentId: string) => {
+    try {
+      await db.setCurrentVersion(documentId);
+      await loadDocuments();
+    } catch (error) {
+      console.error('Error changing the current version:', error);
+    }
+  };
+
+  const toggleVersionHistory = (versionGroupId: string) => {
+    setExpandedVersionGroups(prev => {
+      const next = new Set(prev);
+      if (!next.delete(versionGroupId)) {
+        next.add(versionGroupId);
+      }
+      return next;
+    });
+  };
+
   const addTag = (fileIndex: number) => {
     if (!newTag.trim()) return;
     
@@ -183,6 +276,127 @@ export function FileUploader({ db, onProcessingUpdate, onDocumentSelect, activeC
     });
   };
 
+  // Child documents (such as email attachments) are listed directly under their parent,
+  // and earlier versions are only shown in the version history
+  const rootDocuments = documents.filter(
+    doc => doc.isCurrentVersion &&
+      (!doc.parentDocumentId || !documents.some(parent => parent.id === doc.parentDocumentId))
+  );
+
+  const getEarlierVersions = (doc: DocumentListItem) => documents
+    .filter(other => other.versionGroupId === doc.versionGroupId && other.id !== doc.id)
+    .sort((a, b) => b.version - a.version);
+
+  const renderVersionRows = (doc: DocumentListItem, depth: number): JSX.Element[] => {
+    if (!expandedVersionGroups.has(doc.versionGroupId)) return [];
+
+    return getEarlierVersions(doc).map(version => (
+      <tr key={version.id} className="bg-gray-50 text-gray-500">
+        <td className="px-6 py-2 whitespace-nowrap text-sm">
+          <div className="flex items-center" style={{ paddingLeft: `${(depth + 1) * 1.5}rem` }}>
+            <History className="h-4 w-4 text-gray-400 mr-1" />
+            {version.name}
+            <span className="ml-2 px-1.5 py-0.5 bg-gray-200 text-gray-600 text-xs rounded">v{version.version}</span>
+          </div>
+        </td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm">{version.type.toUpperCase()}</td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm">{version.context || '-'}</td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm">{new Date(version.uploadDate).toLocaleString()}</td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm">
+          <div className="flex space-x-4">
+            <button
+              onClick={() => handleViewDocument(version.id)}
+              className="text-blue-600 hover:text-blue-800 flex items-center"
+              title="View this version"
+            >
+              <Eye className="h-4 w-4 mr-1" />
+              View
+            </button>
+            <button
+              onClick={() => handleMakeCurrent(version.id)}
+              className="text-blue-600 hover:text-blue-800 flex items-center"
+              title="Use this version for retrieval"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Make current
+            </button>
+            <button
+              onClick={() => handleRemoveDocument(version.id)}
+              className="text-red-600 hover:text-red-800 flex items-center"
+              title="Remove this version"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Remove
+            </button>
+          </div>
+        </td>
+      </tr>
+    ));
+  };
+
+  const renderDocumentRows = (doc: DocumentListItem, depth: number): JSX.Element[] => [
+    <tr key={doc.id} className={`hover:bg-gray-50 ${depth > 0 ? 'bg-gray-50' : ''}`}>
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+        <div className="flex items-center" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+          {depth > 0 && <Paperclip className="h-4 w-4 text-gray-400 mr-1" />}
+          {doc.name}
+          {doc.version > 1 && (
+            <span className="ml-2 px-1.5 py-0.5 bg-blue-100 text-blue-800 text-xs rounded">v{doc.version}</span>
+          )}
+        </div>
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+        {doc.type.toUpperCase()}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+        {doc.context ? (
+          <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
+            {doc.context}
+          </span>
+        ) : (
+          <span className="text-gray-400">-</span>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+        {new Date(doc.uploadDate).toLocaleString()}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+        <div className="flex space-x-4">
+          <button
+            onClick={() => handleViewDocument(doc.id)}
+            className="text-blue-600 hover:text-blue-800 flex items-center"
+            title="View Document"
+          >
+            <Eye className="h-4 w-4 mr-1" />
+            View
+          </button>
+          {getEarlierVersions(doc).length > 0 && (
+            <button
+              onClick={() => toggleVersionHistory(doc.versionGroupId)}
+              className="text-gray-600 hover:text-gray-800 flex items-center"
+              title="Show earlier versions"
+            >
+              <History className="h-4 w-4 mr-1" />
+              {expandedVersionGroups.has(doc.versionGroupId) ? 'Hide history' : 'History'}
+            </button>
+          )}
+          <button
+            onClick={() => handleRemoveDocument(doc.id)}
+            className="text-red-600 hover:text-red-800 flex items-center"
+            title="Remove Document"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Remove
+          </button>
+        </div>
+      </td>
+    </tr>,
+    ...renderVersionRows(doc, depth),
+    ...documents
+      .filter(child => child.parentDocumentId === doc.id && child.isCurrentVersion)
+      .flatMap(child => renderDocumentRows(child, depth + 1))
+  ];
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
@@ -204,117 +418,240 @@ export function FileUploader({ db, onProcessingUpdate, onDocumentSelect, activeC
           {isDragActive ? 'Drop the files here' : 'Drag & drop files here, or click to select files'}
         </p>
         <p className="mt-1 text-xs text-gray-500">
-          PDF, DOCX, JPG, PNG, TXT (Max 50MB per file)
+          PDF, DOCX, JPG, PNG, TXT, CSV, XLSX, EML, MSG or ZIP archives (Max 50MB per file)
         </p>
       </div>
 
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <FolderOpen className="h-4 w-4 mr-1" />
+          Select a whole folder
+        </button>
+        <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleFolderSelect} />
+        {isExpanding && (
+          <span className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            Expanding archives and folders...
+          </span>
+        )}
+      </div>
+
+      {skippedEntries.length > 0 && (
+        <div className="bg-yellow-50 p-3 rounded-md">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-yellow-800 text-sm flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              Skipped {skippedEntries.length} {skippedEntries.length === 1 ? 'entry' : 'entries'}
+            </h3>
+            <button
+              onClick={() => setSkippedEntries([])}
+              className="text-xs text-yellow-700 hover:text-yellow-900"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+            {skippedEntries.map((entry, index) => (
+              <li key={index} className="text-xs text-yellow-800">
+                <span className="font-medium">{entry.path}</span>: {entry.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {files.length > 0 && (
         <div className="mt-4">
           <h3 className="font-medium text-gray-900 mb-2">Files to process:</h3>
           <ul className="space-y-4">
-            {files.map((file, index) => (
-              <li key={index} className="p-3 bg-gray-50 rounded-md">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <File className="h-5 w-5 text-gray-500 mr-2" />
-                    <span className="text-sm text-gray-700">{file.name}</span>
+            {files.map((entry, index) => {
+              const { relativePath } = entry;
+              const previousVersion = findPreviousVersion(relativePath);
+              return (
+                <li key={index} className="p-3 bg-gray-50 rounded-md">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <File className="h-5 w-5 text-gray-500 mr-2" />
+                      <span className="text-sm text-gray-700">{relativePath}</span>
+                    </div>
+                    <button
+                      onClick={() => removeFile(index)}
+                      className="text-red-500 hover:text-red-700 text-sm"
+                    >
+                      Remove
+                    </button>
                   </div>
-                  <button
-                    onClick={() => removeFile(index)}
-                    className="text-red-500 hover:text-red-700 text-sm"
-                  >
-                    Remove
-                  </button>
-                </div>
+
+                  {previousVersion && (
+                    <label className="mt-2 flex items-center text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={uploadsAsNewVersion(entry)}
+                        onChange={() => toggleNewVersion(entry)}
+                        className="mr-2"
+                      />
+                      Upload as a new version of the existing {previousVersion.name} (v{previousVersion.version})
+                    </label>
+                  )}
                 
-                {/* Tags section */}
-                <div className="mt-2">
-                  <div className="flex items-center text-sm">
-                    <Tag className="h-4 w-4 text-gray-500 mr-1" />
-                    <span className="text-gray-600">Tags:</span>
-                  </div>
+                  {/* Tags section */}
+                  <div className="mt-2">
+                    <div className="flex items-center text-sm">
+                      <Tag className="h-4 w-4 text-gray-500 mr-1" />
+                      <span className="text-gray-600">Tags:</span>
+                    </div>
                   
-                  <div className="flex flex-wrap gap-2 mt-1">
-                    {(documentTags[index] || []).map((tag, tagIndex) => (
-                      <span 
-                        key={tagIndex} 
-                        className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full"
-                      >
-                        {tag}
-                        <button 
-                          onClick={() => removeTag(index, tag)}
-                          className="ml-1 text-blue-600 hover:text-blue-800"
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {getFolderTags(relativePath).map(tag => (
+                        <span
+                          key={`folder-${tag}`}
+                          className="inline-flex items-center px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-full"
+                          title="Tag taken from the folder name"
                         >
-                          &times;
-                        </button>
-                      </span>
-                    ))}
+                          <FolderOpen className="h-3 w-3 mr-1" />
+                          {tag}
+                        </span>
+                      ))}
+                      {(documentTags[index] || []).map((tag, tagIndex) => (
+                        <span 
+                          key={tagIndex} 
+                          className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full"
+                        >
+                          {tag}
+                          <button 
+                            onClick={() => removeTag(index, tag)}
+                            className="ml-1 text-blue-600 hover:text-blue-800"
+                          >
+                            &times;
+                          </button>
+                        </span>
+                      ))}
                     
-                    <div className="flex items-center">
-                      <input
-                        type="text"
-                        value={newTag}
-                        onChange={(e) => setNewTag(e.target.value)}
-                        placeholder="Add tag..."
-                        className="text-xs border border-gray-300 rounded-l-md px-2 py-1 w-24"
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            e.preventDefault();
-                            addTag(index);
-                          }
-                        }}
-                      />
-                      <button
-                        onClick={() => addTag(index)}
-                        className="text-xs bg-blue-600 text-white px-2 py-1 rounded-r-md hover:bg-blue-700"
-                      >
-                        Add
-                      </button>
+                      <div className="flex items-center">
+                        <input
+                          type="text"
+                          value={newTag}
+                          onChange={(e) => setNewTag(e.target.value)}
+                          placeholder="Add tag..."
+                          className="text-xs border border-gray-300 rounded-l-md px-2 py-1 w-24"
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              addTag(index);
+                            }
+                          }}
+                        />
+                        <button
+                          onClick={() => addTag(index)}
+                          className="text-xs bg-blue-600 text-white px-2 py-1 rounded-r-md hover:bg-blue-700"
+                        >
+                          Add
+                        </button>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </li>
-            ))}
+                </li>
+                );
+            })}
           </ul>
           <button
-            onClick={processFiles}
-            disabled={isProcessing}
+            onClick={queueFiles}
+            disabled={isQueueing}
             className={`mt-4 px-4 py-2 rounded-md text-white font-medium ${
-              isProcessing
+              isQueueing
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700'
             }`}
           >
-            {isProcessing ? 'Processing...' : 'Process Files'}
+            {isQueueing ? 'Queueing...' : 'Process Files'}
           </button>
         </div>
       )}
 
-      {processedFiles.length > 0 && (
+      {jobs.length > 0 && (
         <div className="mt-6">
-          <h3 className="font-medium text-gray-900 mb-2">Successfully processed:</h3>
-          <ul className="space-y-1">
-            {processedFiles.map((fileName, index) => (
-              <li key={index} className="flex items-center text-sm text-green-600">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                {fileName}
-              </li>
-            ))}
-          </ul>
-        </div>
-      )}
-
-      {failedFiles.length > 0 && (
-        <div className="mt-4">
-          <h3 className="font-medium text-gray-900 mb-2">Failed to process:</h3>
-          <ul className="space-y-2">
-            {failedFiles.map((file, index) => (
-              <li key={index} className="flex items-start text-sm text-red-600 bg-red-50 p-2 rounded">
-                <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
-                <div>
-                  <p className="font-medium">{file.name}</p>
-                  <p className="text-xs mt-1">{file.error}</p>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-medium text-gray-900">
+              Processing queue
+              {queueSummary.isProcessing && (
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {queueSummary.finished} of {queueSummary.total} files, {queueSummary.progress}%
+                </span>
+              )}
+            </h3>
+            <button
+              onClick={() => ingestionQueue.clearFinished()}
+              className="text-xs text-gray-600 hover:text-gray-800"
+            >
+              Clear finished
+            </button>
+          </div>
+          {queueSummary.batches.map(batch => (
+            <div key={batch.batchId} className="mb-3">
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span>
+                  Added {new Date(batch.createdAt).toLocaleString()}: {batch.finished} of {batch.total} files, {batch.progress}%
+                </span>
+                <button
+                  onClick={() => ingestionQueue.cancelBatch(batch.batchId)}
+                  className="text-red-600 hover:text-red-800 flex items-center"
+                  title="Cancel every unfinished file in this batch"
+                >
+                  <XCircle className="h-3 w-3 mr-1" />
+                  Cancel batch
+                </button>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${batch.progress}%` }}></div>
+              </div>
+            </div>
+          ))}
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {jobs.map(job => (
+              <li
+                key={job.id}
+                className={`flex items-start text-sm p-2 rounded ${
+                  job.status === 'failed' ? 'bg-red-50 text-red-600' : 'bg-gray-50 text-gray-700'
+                }`}
+              >
+                {job.status === 'completed' && <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-green-600" />}
+                {job.status === 'duplicate' && <Copy className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-gray-500" />}
+                {job.status === 'failed' && <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />}
+                {job.status === 'cancelled' && <XCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-gray-400" />}
+                {job.status === 'processing' && <Loader2 className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-blue-600 animate-spin" />}
+                {job.status === 'queued' && <File className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-gray-400" />}
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium truncate">{job.relativePath}</p>
+                  <p className="text-xs mt-1 text-gray-500">{job.error || job.message}</p>
+                  {job.status === 'processing' && (
+                    <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                      <div className="bg-blue-600 h-1.5 rounded-full" style={{ width: `${job.progress}%` }}></div>
+                    </div>
+                  )}
                 </div>
+                {!isJobFinished(job) && (
+                  <button
+                    onClick={() => ingestionQueue.cancel(job.id)}
+                    className="ml-2 text-xs text-red-600 hover:text-red-800 flex items-center"
+                    title="Cancel"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    onClick={() => ingestionQueue.retry(job.id)}
+                    className="ml-2 text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                    title="Retry"
+                  >
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Retry
+                  </button>
+                )}
               </li>
             ))}
           </ul>
@@ -346,55 +683,14 @@ export function FileUploader({ db, onProcessingUpdate, onDocumentSelect, activeC
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {documents.map((doc) => (
-                  <tr key={doc.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {doc.name}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {doc.type.toUpperCase()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {doc.context ? (
-                        <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
-                          {doc.context}
-                        </span>
-                      ) : (
-                        <span className="text-gray-400">-</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {new Date(doc.uploadDate).toLocaleString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      <div className="flex space-x-4">
-                        <button
-                          onClick={() => handleViewDocument(doc.id)}
-                          className="text-blue-600 hover:text-blue-800 flex items-center"
-                          title="View Document"
-                        >
-                          <Eye className="h-4 w-4 mr-1" />
-                          View
-                        </button>
-                        <button
-                          onClick={() => handleRemoveDocument(doc.id)}
-                          className="text-red-600 hover:text-red-800 flex items-center"
-                          title="Remove Document"
-                        >
-                          <Trash2 className="h-4 w-4 mr-1" />
-                          Remove
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
+                {rootDocuments.flatMap(doc => renderDocumentRows(doc, 0))}
               </tbody>
             </table>
           </div>
         </div>
       )}
 
-      {documents.length === 0 && !isProcessing && (
+      {documents.length === 0 && jobs.length === 0 && (
         <div className="mt-8 bg-blue-50 p-4 rounded-lg flex items-start">
           <Info className="h-5 w-5 text-blue-500 mr-2 mt-0.5" />
           <div>
@@ -407,6 +703,8 @@ export function FileUploader({ db, onProcessingUpdate, onDocumentSelect, activeC
               <li>Word documents: Essays, reports, letters</li>
               <li>Images: Scanned documents, certificates</li>
               <li>Text files: Notes, data, transcripts</li>
+              <li>Spreadsheets: Contribution histories, member schedules</li>
+              <li>Emails: Exported correspondence, including attachments</li>
             </ul>
           </div>
         </div>
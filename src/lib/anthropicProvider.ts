@@ -0,0 +1,161 @@
+import { LLMProvider, LLMModel, LLMPrompt, GenerationOptions, readEventStream, toChatMessages } from './llmProvider';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_SYSTEM_MESSAGE = 'You are a document analysis expert assistant.';
+const DEFAULT_TEMPERATURE = 0.3;
+// Anthropic requires a limit on every request
+const DEFAULT_MAX_TOKENS = 1000;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+}
+
+// Anthropic takes the system prompt separately, and turns must alternate starting with the user
+function toAnthropicRequest(prompt: LLMPrompt): { system: string; messages: AnthropicMessage[] } {
+  const chatMessages = toChatMessages(prompt);
+  const system = chatMessages.filter(message => message.role === 'system').map(message => message.content);
+  const messages: AnthropicMessage[] = [];
+
+  for (const message of chatMessages) {
+    if (message.role === 'system') continue;
+    const previous = messages[messages.length - 1];
+    if (previous?.role === message.role) {
+      previous.content += `\n\n${message.content}`;
+    } else if (messages.length > 0 || message.role === 'user') {
+      messages.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return { system: system.join('\n\n') || DEFAULT_SYSTEM_MESSAGE, messages };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  private apiKey: string;
+  private activeModel: string;
+
+  constructor(apiKey: string, activeModel: string = 'claude-sonnet-4-5') {
+    this.apiKey = apiKey;
+    this.activeModel = activeModel;
+  }
+
+  async fetchModels(): Promise<LLMModel[]> {
+    try {
+      const response = await fetch(`${ANTHROPIC_BASE_URL}/models`, {
+        headers: this.getHeaders()
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch Anthropic models: ${response.statusText}`);
+      }
+
+      // Newest first
+      const data: { data: Array<{ id: string; display_name?: string }> } = await response.json();
+      return data.data.map(model => ({
+        id: model.id,
+        name: model.display_name || model.id,
+        provider: 'anthropic'
+      }));
+    } catch (error) {
+      console.error('Error fetching Anthropic models:', error);
+
+      // Return default models if API call fails
+      return [
+        { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', provider: 'anthropic' },
+        { id: 'claude-opus-4-1', name: 'Claude Opus 4.1', provider: 'anthropic' },
+        { id: 'claude-3-5-haiku-latest', name: 'Claude Haiku 3.5', provider: 'anthropic' }
+      ];
+    }
+  }
+
+  async generateAnswer(prompt: LLMPrompt, options: GenerationOptions = {}): Promise<string> {
+    try {
+      const response = await fetch(`${ANTHROPIC_BASE_URL}/messages`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(this.buildRequest(prompt, options))
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`Anthropic API error: ${errorData.error?.message || response.statusText}`);
+      }
+
+      const data: { content: Array<{ type: string; text?: string }> } = await response.json();
+      return data.content.filter(block => block.type === 'text').map(block => block.text).join('');
+    } catch (error) {
+      console.error('Error calling Anthropic API:', error);
+      throw error;
+    }
+  }
+
+  async streamAnswer(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    let answer = '';
+
+    try {
+      const response = await fetch(`${ANTHROPIC_BASE_URL}/messages`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ ...this.buildRequest(prompt, options), stream: true }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`Anthropic API error: ${errorData.error?.message || response.statusText}`);
+      }
+
+      // Server-sent events: text arrives in "content_block_delta" events, other events are skipped
+      await readEventStream<AnthropicStreamEvent>(response.body, event => {
+        if (event.type === 'error') {
+          throw new Error(`Anthropic API error: ${event.error?.message || 'the stream failed'}`);
+        }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          answer += event.delta.text;
+          onToken(event.delta.text);
+        }
+      });
+
+      return answer;
+    } catch (error) {
+      if (signal?.aborted) {
+        return answer;
+      }
+      console.error('Error calling Anthropic API:', error);
+      throw error;
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      // The API rejects requests from web pages unless they opt in, as the key is visible to the page
+      'anthropic-dangerous-direct-browser-access': 'true'
+    };
+  }
+
+  private buildRequest(prompt: LLMPrompt, options: GenerationOptions) {
+    return {
+      model: this.activeModel,
+      ...toAnthropicRequest(prompt),
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+      // Recent models accept only one of temperature and top-p, so a narrowed top-p replaces the temperature
+      ...(options.topP !== undefined && options.topP < 1 && { top_p: options.topP, temperature: undefined })
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import JSZip from 'jszip';
+
+export interface ImportEntry {
+  file: File;
+  // Path of the file inside the dropped folder or archive, e.g. "Member 1234/2019/statement.pdf"
+  relativePath: string;
+  sourceArchive?: string;
+}
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+// Nested archives beyond this depth are reported as skipped rather than expanded
+const MAX_ARCHIVE_DEPTH = 3;
+
+const IGNORED_SEGMENTS = ['__MACOSX', '.DS_Store', 'Thumbs.db', 'desktop.ini'];
+
+export function isArchive(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
+
+// The path a browser reports for a file dropped inside a folder or picked with a directory input
+export function getRelativePath(file: File): string {
+  const path = (file as File & { path?: string }).path || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\/+/, '');
+}
+
+// Each enclosing folder name becomes a tag, e.g. "Member 1234/2019/statement.pdf" -> ["Member 1234", "2019"]
+export function getFolderTags(relativePath: string): string[] {
+  return relativePath
+    .split('/')
+    .slice(0, -1)
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.');
+}
+
+function isIgnoredPath(path: string): boolean {
+  return path.split('/').some(segment => IGNORED_SEGMENTS.includes(segment) || segment.startsWith('._'));
+}
+
+export class ArchiveImporter {
+  private isSupported: (file: File) => boolean;
+
+  constructor(isSupported: (file: File) => boolean) {
+    this.isSupported = isSupported;
+  }
+
+  // Expand dropped files and ZIP archives into a flat list of importable files
+  async expandFiles(files: File[]): Promise<{ entries: ImportEntry[]; skipped: SkippedEntry[] }> {
+    const entries: ImportEntry[] = [];
+    const skipped: SkippedEntry[] = [];
+
+    for (const file of files) {
+      const relativePath = getRelativePath(file);
+      await this.addFile(file, relativePath, undefined, 0, entries, skipped);
+    }
+
+    return { entries, skipped };
+  }
+
+  private async addFile(
+    file: File,
+    relativePath: string,
+    sourceArchive: string | undefined,
+    depth: number,
+    entries: ImportEntry[],
+    skipped: SkippedEntry[]
+  ) {
+    if (isIgnoredPath(relativePath)) return;
+
+    if (isArchive(file)) {
+      if (depth >= MAX_ARCHIVE_DEPTH) {
+        skipped.push({ path: relativePath, reason: 'Archive nested too deeply' });
+        return;
+      }
+      await this.expandArchive(file, relativePath, depth, entries, skipped);
+      return;
+    }
+
+    if (!this.isSupported(file)) {
+      skipped.push({ path: relativePath, reason: 'Unsupported file type' });
+      return;
+    }
+
+    entries.push({ file, relativePath, sourceArchive });
+  }
+
+  private async expandArchive(
+    archive: File,
+    archivePath: string,
+    depth: number,
+    entries: ImportEntry[],
+    skipped: SkippedEntry[]
+  ) {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await archive.arrayBuffer());
+    } catch (error) {
+      skipped.push({
+        path: archivePath,
+        reason: `Could not open archive: ${error instanceof Error ? error.message : String(error)}`
+      });
+      return;
+    }
+
+    // Files inside the archive sit under a folder named after the archive
+    const archiveFolder = archivePath.replace(/\.zip$/i, '');
+
+    for (const zipEntry of Object.values(zip.files)) {
+      if (zipEntry.dir) continue;
+
+      const relativePath = `${archiveFolder}/${zipEntry.name}`;
+      if (isIgnoredPath(relativePath)) continue;
+
+      // Check the name before decompressing so unsupported entries cost nothing
+      const name = zipEntry.name.split('/').pop() || zipEntry.name;
+      const placeholder = new File([], name);
+      if (!isArchive(placeholder) && !this.isSupported(placeholder)) {
+        skipped.push({ path: relativePath, reason: 'Unsupported file type' });
+        continue;
+      }
+
+      const file = new File([await zipEntry.async('blob')], name, { lastModified: zipEntry.date.getTime() });
+      await this.addFile(file, relativePath, archive.name, depth + 1, entries, skipped);
+    }
+  }
+}
@@ -1,12 +1,47 @@
 import { Database, ChunkRecord } from './db';
-import { VectorSearchService } from './vectorSearchService';
-import { LLMProvider, LLMModel, LLMProviderType } from './llmProvider';
-import { OpenAIProvider } from './openaiProvider';
-import { GeminiProvider } from './geminiProvider';
+import { HybridSearchService } from './hybridSearchService';
+import { getRetrievalSettings } from './retrievalSettings';
+import { getGenerationSettings } from './generationSettings';
+import { createEmbeddingProvider, getEmbeddingSettings } from './embeddingService';
+import { LLMProvider, LLMModel, LLMProviderType, ChatMessage, getContextWindow } from './llmProvider';
+import { getLLMProviderConfig, getLLMProviderDefinition, isLLMProviderConfigured } from './llmProviderRegistry';
+import { GenerationSettings, RetrievalScope } from './types';
+import { LLMReranker } from './reranker';
+import { QueryTransformation, QueryTransformer } from './queryTransformer';
+import { estimateTokens } from './chunker';
+import { QuestionCondenser, countHistoryTokens, trimHistory } from './conversationMemory';
+
+// Number of chunks used to answer each question
+const RESULT_LIMIT = 5;
+// Tokens kept free in the model's context window for the instructions, question and answer
+const PROMPT_RESERVE_TOKENS = 2000;
+// Tokens of earlier conversation sent with each question; taken from the context budget
+const HISTORY_TOKEN_BUDGET = 1500;
+
+export interface AnswerSource {
+  documentId: string;
+  documentName: string;
+  content: string;
+  metadata: any;
+  rerankScore?: number;
+  similarity?: number;
+}
+
+export interface QueryOptions {
+  // Earlier messages of the conversation, oldest first, so follow-up questions can be understood
+  history?: ChatMessage[];
+  // Called once retrieval is done, so sources can be shown before the answer arrives
+  onSources?: (sources: AnswerSource[], transformations?: QueryTransformation) => void;
+  // When set, the answer is streamed and each piece passed here as it arrives
+  onToken?: (token: string) => void;
+  // Aborting stops the answer and keeps the part generated so far
+  signal?: AbortSignal;
+}
 
 export class ChatService {
   private db: Database;
-  private vectorSearchService: VectorSearchService;
+  private hybridSearchService: HybridSearchService | null = null;
+  private embeddingModelId: string | null = null;
   private llmProvider: LLMProvider | null = null;
   private activeProvider: LLMProviderType = 'openai';
   private contextPrompt: string = '';
@@ -14,35 +49,29 @@ export class ChatService {
 
   constructor(db: Database) {
     this.db = db;
-    this.vectorSearchService = new VectorSearchService(db);
     this.setProviderFromLocalStorage();
   }
 
   private setProviderFromLocalStorage() {
-    const provider = localStorage.getItem('active_llm_provider') as LLMProviderType || 'openai';
-    const apiKey = localStorage.getItem(`${provider}_api_key`);
-    const activeModel = localStorage.getItem('active_llm_model') || null;
-
-    if (provider === 'openai' && apiKey) {
-      this.llmProvider = new OpenAIProvider(apiKey);
-    } else if (provider === 'gemini' && apiKey) {
-      this.llmProvider = new GeminiProvider(apiKey, activeModel || 'gemini-1.5-flash');
-    }
+    const definition = getLLMProviderDefinition(localStorage.getItem('active_llm_provider'));
+    const config = getLLMProviderConfig(definition.type);
 
-    this.activeProvider = provider;
+    this.llmProvider = isLLMProviderConfigured(definition.type, config) ? definition.create(config) : null;
+    this.activeProvider = definition.type;
   }
 
-  setOpenAIApiKey(key: string) {
-    localStorage.setItem('openai_api_key', key);
-    if (this.activeProvider === 'openai') {
-      this.llmProvider = new OpenAIProvider(key);
+  setApiKey(provider: LLMProviderType, key: string) {
+    localStorage.setItem(`${provider}_api_key`, key);
+    if (this.activeProvider === provider) {
+      this.setProviderFromLocalStorage();
     }
   }
 
-  setGeminiApiKey(key: string) {
-    localStorage.setItem('gemini_api_key', key);
-    if (this.activeProvider === 'gemini') {
-      this.llmProvider = new GeminiProvider(key);
+  // Address of a self-hosted server, e.g. http://localhost:11434/v1 for Ollama
+  setBaseUrl(provider: LLMProviderType, url: string) {
+    localStorage.setItem(`${provider}_base_url`, url.trim());
+    if (this.activeProvider === provider) {
+      this.setProviderFromLocalStorage();
     }
   }
 
@@ -58,6 +87,8 @@ export class ChatService {
     } else {
       localStorage.removeItem('active_llm_model');
     }
+    // Providers are built for one model
+    this.setProviderFromLocalStorage();
   }
 
   setContextPrompt(prompt: string) {
@@ -76,9 +107,8 @@ export class ChatService {
     return this.availableModels;
   }
 
-  hasApiKey(provider: LLMProviderType): boolean {
-    const apiKey = localStorage.getItem(`${provider}_api_key`);
-    return !!apiKey;
+  isConfigured(provider: LLMProviderType): boolean {
+    return isLLMProviderConfigured(provider);
   }
 
   async fetchAvailableModels(): Promise<LLMModel[]> {
@@ -88,57 +118,127 @@ export class ChatService {
 
     this.availableModels = await this.llmProvider.fetchModels();
 
-    // If we have models and no active model is set, set the first one as default
-    if (this.availableModels.length > 0 && !localStorage.getItem('active_llm_model')) {
+    // If we have models and no usable model is set, set the first one as default. The saved model
+    // may belong to the previously selected provider.
+    const activeModel = this.getActiveModel();
+    if (this.availableModels.length > 0 && !this.availableModels.some(model => model.id === activeModel)) {
       this.setActiveModel(this.availableModels[0].id);
     }
 
     return this.availableModels;
   }
 
-  async processQuery(query: string, contextId?: string): Promise<{
+  async processQuery(
+    query: string,
+    contextId?: string,
+    scope: Omit<RetrievalScope, 'contextId'> = { mode: 'context' },
+    options: QueryOptions = {}
+  ): Promise<{
     answer: string;
-    sources: Array<{
-      documentId: string;
-      documentName: string;
-      content: string;
-      metadata: any;
-    }>;
+    sources: AnswerSource[];
+    transformations?: QueryTransformation;
+    // The follow-up question rewritten to stand on its own, when it differs from the question asked
+    standaloneQuery?: string;
   }> {
     if (!this.llmProvider) {
       throw new Error('LLM provider is not set. Please set it in the settings.');
     }
 
     try {
-      // 1. Get relevant chunks using vector similarity search
-      const relevantChunks = await this.vectorSearchService.searchSimilarChunks(query);
+      // 1. Get relevant chunks using hybrid keyword and vector search, limited to the requested scope
+      // Follow-ups are searched for as standalone questions
+      const history = trimHistory(options.history || [], HISTORY_TOKEN_BUDGET);
+      const searchQuery = await new QuestionCondenser(this.llmProvider).condense(query, history);
+      const standaloneQuery = searchQuery !== query ? searchQuery : undefined;
+
+      const retrievalSettings = getRetrievalSettings(contextId);
+      const transformations = retrievalSettings.useQueryTransforms
+        ? await new QueryTransformer(this.llmProvider).transform(searchQuery, this.contextPrompt)
+        : undefined;
+      const retrieved = await this.getHybridSearchService().searchAll(
+        [searchQuery, ...(transformations?.paraphrases || []), ...(transformations?.subQuestions || [])],
+        transformations?.hypotheticalAnswer ? [transformations.hypotheticalAnswer] : [],
+        retrievalSettings.useReranker ? Math.max(RESULT_LIMIT, retrievalSettings.rerankCandidates) : RESULT_LIMIT,
+        { ...scope, contextId },
+        retrievalSettings
+      );
+
+      if (retrieved.length === 0) {
+        return {
+          answer: scope.mode === 'library'
+            ? "I couldn't find any relevant information in the uploaded documents. Please try a different query or upload more documents."
+            : "I couldn't find any relevant information in the documents within the selected search scope. Please try a wider scope, a different query or upload more documents.",
+          sources: [],
+          transformations,
+          standaloneQuery
+        };
+      }
+
+      // Search always returns its best matches, however weak, so drop those unrelated to the question.
+      // Results that could not be scored (no vector from the active model) are kept.
+      let results = retrieved.filter(result =>
+        result.similarity === undefined || result.similarity >= retrievalSettings.minSimilarity
+      );
 
-      if (relevantChunks.length === 0) {
+      if (results.length === 0) {
+        // Answer directly rather than asking the LLM to work from unrelated passages
+        const bestSimilarity = Math.max(...retrieved.map(result => result.similarity ?? 0));
         return {
-          answer: "I couldn't find any relevant information in the uploaded documents. Please try a different query or upload more documents.",
-          sources: []
+          answer: `This doesn't appear to be covered in the ${scope.mode === 'library' ? 'uploaded documents' : 'documents within the selected search scope'}. ` +
+            `The closest passage was only ${Math.round(bestSimilarity * 100)}% similar to your question, below the ${Math.round(retrievalSettings.minSimilarity * 100)}% minimum set in the retrieval settings. ` +
+            'Try rephrasing the question, widening the search scope or lowering the minimum similarity.',
+          sources: [],
+          transformations,
+          standaloneQuery
         };
       }
 
+      // Optionally let the chat model rescore the wider candidate set and keep the best
+      if (retrievalSettings.useReranker) {
+        const scorer = `${this.activeProvider}:${this.getActiveModel() || 'default'}`;
+        results = await new LLMReranker(this.db, this.llmProvider, scorer).rerank(searchQuery, results, RESULT_LIMIT);
+      }
+      const relevantChunks = results.map(result => result.chunk);
+
       // 2. Get document details for each chunk
-      const sources = await Promise.all(
-        relevantChunks.map(async (chunk) => {
+      const sources: AnswerSource[] = await Promise.all(
+        results.map(async ({ chunk, rerankScore, similarity }) => {
           const document = await this.db.getDocument(chunk.documentId);
           return {
             documentId: chunk.documentId,
             documentName: document?.name || 'Unknown document',
             content: chunk.content,
-            metadata: chunk.metadata
+            metadata: chunk.metadata,
+            rerankScore,
+            similarity
           };
         })
       );
+      options.onSources?.(sources, transformations);
 
-      // 3. Generate answer using the selected LLM provider
-      const answer = await this.generateAnswer(query, relevantChunks);
+      if (options.signal?.aborted) {
+        return { answer: '', sources, transformations, standaloneQuery };
+      }
+
+      // 3. Generate answer using the selected LLM provider. Results are matched on small chunks, but the
+      // model reads the larger passages they came from, plus the text around them, within a token budget.
+      const passages = await this.db.getPassagesForChunks(relevantChunks);
+      const contextPassages = await this.expandWithNeighbors(passages, retrievalSettings.neighborWindow);
+      const tokenBudget = Math.max(
+        0,
+        Math.min(
+          retrievalSettings.contextTokenBudget,
+          getContextWindow(this.getActiveModel()) - PROMPT_RESERVE_TOKENS
+        ) - countHistoryTokens(history)
+      );
+      const generationSettings = getGenerationSettings(this.activeProvider, contextId);
+      const answer = await this.generateAnswer(query, contextPassages, tokenBudget, history, generationSettings, options);
 
       return {
         answer,
-        sources
+        sources,
+        transformations,
+        standaloneQuery
       };
     } catch (error) {
       console.error('Error processing query:', error);
@@ -146,34 +246,118 @@ export class ChatService {
     }
   }
 
-  private async generateAnswer(query: string, relevantChunks: ChunkRecord[]): Promise<string> {
+  // The embedding model can be changed in the settings, so follow the current choice
+  private getHybridSearchService(): HybridSearchService {
+    const embeddingProvider = createEmbeddingProvider(getEmbeddingSettings());
+    if (!this.hybridSearchService || this.embeddingModelId !== embeddingProvider.modelId) {
+      this.hybridSearchService = new HybridSearchService(this.db, embeddingProvider);
+      this.embeddingModelId = embeddingProvider.modelId;
+    }
+    return this.hybridSearchService;
+  }
+
+  // The sentence that answers a question often sits just before or after the matching passage, so
+  // add up to `window` passages either side of each result. Results keep their order, each followed
+  // by its neighbours in document order, and passages already included are not repeated.
+  private async expandWithNeighbors(chunks: ChunkRecord[], window: number): Promise<ChunkRecord[]> {
+    if (window <= 0) {
+      return chunks;
+    }
+
+    const documentChunks = new Map<string, ChunkRecord[]>();
+    const included = new Set<string>();
+    const expanded: ChunkRecord[] = [];
+
+    for (const chunk of chunks) {
+      let siblings = documentChunks.get(chunk.documentId);
+      if (!siblings) {
+        siblings = (await this.db.getPassages(chunk.documentId))
+          .sort((a, b) => (a.metadata.position?.start ?? 0) - (b.metadata.position?.start ?? 0));
+        documentChunks.set(chunk.documentId, siblings);
+      }
+
+      const index = siblings.findIndex(sibling => sibling.id === chunk.id);
+      const neighbors = index === -1 ? [chunk] : siblings.slice(Math.max(0, index - window), index + window + 1);
+      for (const neighbor of neighbors) {
+        if (!included.has(neighbor.id)) {
+          included.add(neighbor.id);
+          expanded.push(neighbor);
+        }
+      }
+    }
+
+    return expanded;
+  }
+
+  // Passages are taken in order until the budget is spent. One that doesn't fit is skipped, as a
+  // later, shorter one may still fit; if even the first doesn't fit it is cut to the budget.
+  private packContext(passages: string[], tokenBudget: number): string {
+    const packed: string[] = [];
+    let usedTokens = 0;
+
+    for (const passage of passages) {
+      const tokens = estimateTokens(passage);
+      if (usedTokens + tokens <= tokenBudget) {
+        packed.push(passage);
+        usedTokens += tokens;
+      }
+    }
+
+    if (packed.length === 0 && passages.length > 0) {
+      // estimateTokens counts roughly four characters per token
+      packed.push(passages[0].slice(0, tokenBudget * 4));
+    }
+    return packed.join('\n\n');
+  }
+
+  private async generateAnswer(
+    query: string,
+    relevantChunks: ChunkRecord[],
+    tokenBudget: number,
+    history: ChatMessage[],
+    generationSettings: GenerationSettings,
+    options: QueryOptions
+  ): Promise<string> {
     if (!this.llmProvider) {
       throw new Error('LLM provider is not set. Please set it in the settings.');
     }
 
     // Prepare context from relevant chunks
-    const context = relevantChunks.map(chunk => {
+    const context = this.packContext(relevantChunks.map(chunk => {
       const pageInfo = chunk.metadata.pageNumber
         ? `[Page ${chunk.metadata.pageNumber}]`
         : '';
-      return `${pageInfo} ${chunk.content}`;
-    }).join('\n\n');
-
-    // Prepare the prompt for the LLM
-    const prompt = `
-${this.contextPrompt || 'You are an expert document analysis assistant. Your task is to answer questions about the provided documents.'}
-
-CONTEXT INFORMATION:
+      const sectionInfo = chunk.metadata.headingPath?.length
+        ? `[Section: ${chunk.metadata.headingPath.join(' > ')}]`
+        : '';
+      return `${pageInfo}${sectionInfo} ${chunk.content}`;
+    }), tokenBudget);
+
+    // Instructions go in the system message and earlier turns as their own messages, so the
+    // model can tell the conversation apart from the retrieved documents
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `${generationSettings.systemPrompt.trim() || this.contextPrompt || 'You are an expert document analysis assistant. Your task is to answer questions about the provided documents.'}
+
+Please provide a clear, concise answer based only on the information in the context given with each question. If the information is not in the context, say "I couldn't find this information in the provided documents." Earlier messages in the conversation may explain what a follow-up question refers to, but are not a source of facts.
+
+For any values, dates, or specific details you mention, indicate which document, page or section they came from. If you're quoting directly from a document, use quotation marks and cite the source.`
+      },
+      ...history,
+      {
+        role: 'user',
+        content: `CONTEXT INFORMATION:
 ${context}
 
 USER QUESTION:
-${query}
-
-Please provide a clear, concise answer based only on the information in the context. If the information is not in the context, say "I couldn't find this information in the provided documents." 
-
-For any values, dates, or specific details you mention, indicate which document and page they came from. If you're quoting directly from a document, use quotation marks and cite the source.
-`;
+${query}`
+      }
+    ];
 
-    return this.llmProvider.generateAnswer(prompt);
+    const { temperature, maxOutputTokens, topP } = generationSettings;
+    return options.onToken
+      ? this.llmProvider.streamAnswer(messages, options.onToken, options.signal, { temperature, maxOutputTokens, topP })
+      : this.llmProvider.generateAnswer(messages, { temperature, maxOutputTokens, topP });
   }
 }
\ No newline at end of file
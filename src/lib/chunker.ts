@@ -0,0 +1,231 @@
+export type ChunkingStrategy = 'recursive' | 'page' | 'table';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  targetTokens: number;
+  overlapTokens: number;
+  minTokens: number;
+  // Start a new chunk at every heading instead of merging it into the previous section
+  breakOnHeadings: boolean;
+}
+
+export interface TextChunk {
+  content: string;
+  start: number;
+  end: number;
+  chunkType: 'section' | 'paragraph' | 'sentence-group' | 'fragment';
+}
+
+// Default strategies per file type. PDFs are chunked page by page so every chunk keeps its page number,
+// and spreadsheets by groups of rows.
+export const defaultChunkingOptions: Record<string, ChunkingOptions> = {
+  pdf: { strategy: 'page', targetTokens: 256, overlapTokens: 32, minTokens: 12, breakOnHeadings: true },
+  docx: { strategy: 'recursive', targetTokens: 320, overlapTokens: 40, minTokens: 12, breakOnHeadings: true },
+  image: { strategy: 'recursive', targetTokens: 256, overlapTokens: 32, minTokens: 8, breakOnHeadings: false },
+  spreadsheet: { strategy: 'table', targetTokens: 384, overlapTokens: 0, minTokens: 0, breakOnHeadings: false },
+  email: { strategy: 'recursive', targetTokens: 320, overlapTokens: 40, minTokens: 12, breakOnHeadings: false },
+  text: { strategy: 'recursive', targetTokens: 320, overlapTokens: 40, minTokens: 12, breakOnHeadings: true }
+};
+
+// Children are small windows inside each chunk: precise to match a question against, while the
+// enclosing (parent) chunk is what the LLM reads
+export const childChunkingOptions: ChunkingOptions = {
+  strategy: 'recursive',
+  targetTokens: 64,
+  overlapTokens: 8,
+  minTokens: 4,
+  breakOnHeadings: false
+};
+
+export function getChunkingOptions(
+  fileType: string,
+  overrides: Partial<Record<string, Partial<ChunkingOptions>>> = {}
+): ChunkingOptions {
+  const base = defaultChunkingOptions[fileType] || defaultChunkingOptions.text;
+  return { ...base, ...(overrides[fileType] || {}) };
+}
+
+// Rough token estimate (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+interface Separator {
+  name: TextChunk['chunkType'];
+  pattern: RegExp;
+}
+
+const HEADING_PATTERN = /^(#{1,6}\s+\S.*|\d+(\.\d+)*\.?\s+[A-Z][^.!?\n]{0,80}|[A-Z][A-Z0-9 ,&'()/-]{3,80})$/;
+
+// Separators in order of preference; each boundary falls after the separator match
+const SEPARATORS: Separator[] = [
+  { name: 'section', pattern: /\n(?=#{1,6}\s|\d+(?:\.\d+)*\.?\s+[A-Z][^.!?\n]{0,80}\n|[A-Z][A-Z0-9 ,&'()/-]{3,80}\n)/g },
+  { name: 'paragraph', pattern: /\n[ \t]*\n\s*/g },
+  { name: 'paragraph', pattern: /\n/g },
+  { name: 'sentence-group', pattern: /(?<=[.!?;:])\s+/g },
+  { name: 'fragment', pattern: /\s+/g }
+];
+
+interface Span {
+  start: number;
+  end: number;
+  tokens: number;
+  type: TextChunk['chunkType'];
+  // The span opens with a heading line, so it starts a new section
+  isHeading: boolean;
+}
+
+export class TextChunker {
+  private options: ChunkingOptions;
+
+  constructor(options: ChunkingOptions) {
+    this.options = options;
+  }
+
+  // Split text into overlapping chunks. Offsets are relative to `text` plus `baseOffset`.
+  chunk(text: string, baseOffset = 0): TextChunk[] {
+    if (!text.trim()) return [];
+
+    const spans = this.splitRecursive(text, 0, text.length, 0);
+    return this.mergeSpans(text, spans).map(chunk => ({
+      ...chunk,
+      start: chunk.start + baseOffset,
+      end: chunk.end + baseOffset
+    }));
+  }
+
+  private splitRecursive(text: string, start: number, end: number, level: number): Span[] {
+    const piece = text.slice(start, end);
+    const tokens = estimateTokens(piece);
+    const type = level === 0 ? 'section' : SEPARATORS[level - 1].name;
+
+    if (tokens <= this.options.targetTokens) {
+      return [{ start, end, tokens, type, isHeading: HEADING_PATTERN.test(piece.trim().split('\n')[0]) }];
+    }
+
+    if (level >= SEPARATORS.length) {
+      return this.hardSplit(start, end);
+    }
+
+    const boundaries = this.findBoundaries(piece, SEPARATORS[level].pattern).map(offset => start + offset);
+    if (boundaries.length === 0) {
+      return this.splitRecursive(text, start, end, level + 1);
+    }
+
+    const spans: Span[] = [];
+    let pieceStart = start;
+    for (const boundary of [...boundaries, end]) {
+      if (boundary > pieceStart) {
+        spans.push(...this.splitRecursive(text, pieceStart, boundary, level + 1));
+      }
+      pieceStart = boundary;
+    }
+    return spans;
+  }
+
+  private findBoundaries(text: string, pattern: RegExp): number[] {
+    const boundaries: number[] = [];
+    const regex = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+      const boundary = match.index + match[0].length;
+      if (boundary > 0 && boundary < text.length) {
+        boundaries.push(boundary);
+      }
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+      }
+    }
+    return boundaries;
+  }
+
+  private hardSplit(start: number, end: number): Span[] {
+    const spans: Span[] = [];
+    const size = this.options.targetTokens * 4;
+    for (let offset = start; offset < end; offset += size) {
+      const spanEnd = Math.min(offset + size, end);
+      spans.push({ start: offset, end: spanEnd, tokens: Math.ceil((spanEnd - offset) / 4), type: 'fragment', isHeading: false });
+    }
+    return spans;
+  }
+
+  private mergeSpans(text: string, spans: Span[]): TextChunk[] {
+    const { targetTokens, overlapTokens, minTokens, breakOnHeadings } = this.options;
+    const groups: Array<{ first: number; last: number }> = [];
+
+    let first = 0;
+    while (first < spans.length) {
+      let last = first;
+      let tokens = spans[first].tokens;
+
+      while (last + 1 < spans.length) {
+        const next = spans[last + 1];
+        if (tokens + next.tokens > targetTokens) break;
+        if (breakOnHeadings && next.isHeading && tokens >= minTokens) break;
+        last++;
+        tokens += next.tokens;
+      }
+
+      groups.push({ first, last });
+      if (last + 1 >= spans.length) break;
+
+      // Step back over trailing spans to carry them into the next chunk as overlap
+      let nextFirst = last + 1;
+      let overlap = 0;
+      while (
+        nextFirst - 1 > first &&
+        !spans[last + 1].isHeading &&
+        overlap + spans[nextFirst - 1].tokens <= overlapTokens
+      ) {
+        nextFirst--;
+        overlap += spans[nextFirst].tokens;
+      }
+      first = nextFirst;
+    }
+
+    // Fold tiny groups, such as a short section with only a heading and one value, into a neighbour
+    // rather than emitting a fragment. The previous group is preferred; the first group joins the next.
+    const groupTokens = (group: { first: number; last: number }) =>
+      spans.slice(group.first, group.last + 1).reduce((sum, span) => sum + span.tokens, 0);
+    for (let i = 0; i < groups.length && groups.length > 1;) {
+      if (groupTokens(groups[i]) >= minTokens) {
+        i++;
+      } else if (i > 0) {
+        groups[i - 1].last = Math.max(groups[i - 1].last, groups[i].last);
+        groups.splice(i, 1);
+      } else {
+        groups[1].first = Math.min(groups[0].first, groups[1].first);
+        groups.splice(0, 1);
+      }
+    }
+
+    const chunks: TextChunk[] = [];
+    for (const group of groups) {
+      let start = spans[group.first].start;
+      let end = spans[group.last].end;
+
+      // Trim surrounding whitespace while keeping the offsets exact
+      while (start < end && /\s/.test(text[start])) start++;
+      while (end > start && /\s/.test(text[end - 1])) end--;
+
+      const content = text.slice(start, end);
+      if (!content) continue;
+
+      chunks.push({
+        content,
+        start,
+        end,
+        chunkType: this.getChunkType(spans.slice(group.first, group.last + 1))
+      });
+    }
+    return chunks;
+  }
+
+  private getChunkType(spans: Span[]): TextChunk['chunkType'] {
+    if (spans.length === 1) return spans[0].type;
+    if (spans.some(span => span.type === 'section' || span.isHeading)) return 'section';
+    if (spans.every(span => span.type === 'sentence-group' || span.type === 'fragment')) return 'sentence-group';
+    return 'paragraph';
+  }
+}
@@ -0,0 +1,70 @@
+import { ChatMessage, LLMProvider } from './llmProvider';
+import { estimateTokens } from './chunker';
+
+// Earlier messages kept at most, however short they are
+const MAX_HISTORY_MESSAGES = 10;
+
+// The most recent messages that fit in the budget, oldest first. A reply is only kept with the
+// question it answers, so the history never starts with an assistant message.
+export function trimHistory(history: ChatMessage[], tokenBudget: number): ChatMessage[] {
+  const trimmed: ChatMessage[] = [];
+  let usedTokens = 0;
+
+  for (const message of history.slice(-MAX_HISTORY_MESSAGES).reverse()) {
+    const tokens = estimateTokens(message.content);
+    if (usedTokens + tokens > tokenBudget) break;
+    trimmed.unshift(message);
+    usedTokens += tokens;
+  }
+
+  while (trimmed.length > 0 && trimmed[0].role !== 'user') {
+    trimmed.shift();
+  }
+  return trimmed;
+}
+
+export function countHistoryTokens(history: ChatMessage[]): number {
+  return history.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+}
+
+// Follow-ups such as "and what about the death benefits for that scheme?" only make sense next to
+// the earlier conversation, so they are rewritten into a standalone question before searching.
+export class QuestionCondenser {
+  private llmProvider: LLMProvider;
+
+  constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider;
+  }
+
+  async condense(query: string, history: ChatMessage[]): Promise<string> {
+    if (history.length === 0) {
+      return query;
+    }
+
+    const conversation = history
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n\n');
+
+    try {
+      const reply = await this.llmProvider.generateAnswer([
+        {
+          role: 'system',
+          content: 'You rewrite follow-up questions so they can be understood without the conversation. ' +
+            'Replace words such as "it", "that" or "they" with what they refer to. If the question already stands on its own, return it unchanged. ' +
+            'Reply with only the rewritten question.'
+        },
+        { role: 'user', content: `CONVERSATION:\n${conversation}\n\nFOLLOW-UP QUESTION:\n${query}` }
+      ]);
+
+      const condensed = reply.trim().replace(/^["']|["']$/g, '');
+      if (condensed) {
+        return condensed;
+      }
+    } catch (error) {
+      console.error('Error condensing follow-up question:', error);
+    }
+
+    // Searching with the question as asked still works for most follow-ups
+    return query;
+  }
+}
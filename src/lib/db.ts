@@ -1,9 +1,24 @@
 import Dexie from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
+import { BoundingBox, RetrievalScope } from './types';
+import { buildKeywordEntries } from './keywordIndex';
+import { nearestList, needsTraining, trainVectorIndex } from './vectorIndex';
+import { hasChunkFilters, hasDocumentFilters, matchesChunkFilters, matchesDocumentFilters, QueryFilters } from './queryFilters';
+import type { AnswerSource } from './chatService';
+import type { QueryTransformation } from './queryTransformer';
 
 export class Database extends Dexie {
   documents: Dexie.Table<DocumentRecord, string>;
   chunks: Dexie.Table<ChunkRecord, string>;
   embeddings: Dexie.Table<EmbeddingRecord, string>;
+  jobs: Dexie.Table<IngestionJobRecord, string>;
+  postings: Dexie.Table<PostingRecord, [string, string]>;
+  chunkLengths: Dexie.Table<ChunkLengthRecord, string>;
+  vectorIndexes: Dexie.Table<VectorIndexRecord, string>;
+  rerankScores: Dexie.Table<RerankScoreRecord, [string, string, string]>;
+  parentChunks: Dexie.Table<ChunkRecord, string>;
+  conversations: Dexie.Table<ConversationRecord, string>;
+  messages: Dexie.Table<MessageRecord, string>;
 
   constructor() {
     super('PensionBackfileDB');
@@ -13,10 +28,84 @@ export class Database extends Dexie {
       chunks: 'id, documentId, content, metadata',
       embeddings: 'id, chunkId, vector, *tokens'
     });
+
+    // Version 2 adds content hashes and document versioning
+    this.version(2).stores({
+      documents: 'id, name, type, uploadDate, contentHash, versionGroupId'
+    }).upgrade(tx => tx.table('documents').toCollection().modify(doc => {
+      doc.versionGroupId = doc.id;
+      doc.version = 1;
+      doc.isCurrentVersion = true;
+    }));
+
+    // Version 3 adds the background ingestion queue
+    this.version(3).stores({
+      jobs: 'id, batchId, status, createdAt'
+    });
+
+    // Version 4 replaces the unused embedding tokens with a BM25 inverted index over chunk text
+    this.version(4).stores({
+      embeddings: 'id, chunkId, vector',
+      postings: '[term+chunkId], term, chunkId',
+      chunkLengths: 'chunkId, documentId'
+    }).upgrade(async tx => {
+      const { postings, lengths } = buildKeywordEntries(await tx.table('chunks').toArray());
+      await tx.table('postings').bulkPut(postings);
+      await tx.table('chunkLengths').bulkPut(lengths);
+      await tx.table('embeddings').toCollection().modify(embedding => {
+        delete embedding.tokens;
+      });
+    });
+
+    // Version 5 records which embedding model produced each vector
+    this.version(5).stores({
+      embeddings: 'id, chunkId, vector, model'
+    }).upgrade(tx => tx.table('embeddings').toCollection().modify(embedding => {
+      embedding.model = 'use:universal-sentence-encoder';
+      embedding.dimension = embedding.vector.length;
+    }));
+
+    // Version 6 stores vectors as typed arrays, stops indexing their values and adds an IVF index per model
+    this.version(6).stores({
+      embeddings: 'id, chunkId, model, [model+listId]',
+      vectorIndexes: 'model'
+    }).upgrade(tx => tx.table('embeddings').toCollection().modify(embedding => {
+      embedding.vector = Float32Array.from(embedding.vector);
+    }));
+
+    // Version 7 caches LLM reranker scores
+    this.version(7).stores({
+      rerankScores: '[scorer+query+chunkId], chunkId'
+    });
+
+    // Version 8 keeps the larger parent chunks that small, searchable child chunks belong to.
+    // Documents stored before this have no parents; their chunks are read as they are.
+    this.version(8).stores({
+      parentChunks: 'id, documentId'
+    });
+
+    // Version 9 keeps chat conversations, each tied to the project context it was started in
+    this.version(9).stores({
+      conversations: 'id, contextId, updatedAt',
+      messages: 'id, conversationId, [conversationId+createdAt]'
+    });
+
+    // Version 10 lets searches count a model's vectors within a set of chunks without reading them
+    this.version(10).stores({
+      embeddings: 'id, chunkId, model, [model+listId], [model+chunkId]'
+    });
     
     this.documents = this.table('documents');
     this.chunks = this.table('chunks');
     this.embeddings = this.table('embeddings');
+    this.jobs = this.table('jobs');
+    this.postings = this.table('postings');
+    this.chunkLengths = this.table('chunkLengths');
+    this.vectorIndexes = this.table('vectorIndexes');
+    this.rerankScores = this.table('rerankScores');
+    this.parentChunks = this.table('parentChunks');
+    this.conversations = this.table('conversations');
+    this.messages = this.table('messages');
   }
 
   async addDocument(document: {
@@ -26,19 +115,68 @@ export class Database extends Dexie {
     type: string;
     rawContent?: string;
     metadata?: Record<string, any>;
+    contentHash?: string;
+    versionGroupId?: string;
   }) {
-    await this.documents.put({
-      id: document.id,
-      name: document.name,
-      content: document.content,
-      type: document.type,
-      rawContent: document.rawContent,
-      metadata: document.metadata || {},
-      uploadDate: new Date().toISOString()
+    await this.transaction('rw', this.documents, async () => {
+      const versionGroupId = document.versionGroupId || document.id;
+      const previousVersions = await this.documents.where({ versionGroupId }).toArray();
+
+      // A new version becomes the current one; earlier versions are kept, along with their attachments
+      await this.documents.bulkPut(previousVersions.map(doc => ({ ...doc, isCurrentVersion: false })));
+      await this.setChildrenCurrent(previousVersions.map(doc => doc.id), false);
+      await this.documents.put({
+        id: document.id,
+        name: document.name,
+        content: document.content,
+        type: document.type,
+        rawContent: document.rawContent,
+        metadata: document.metadata || {},
+        uploadDate: new Date().toISOString(),
+        contentHash: document.contentHash,
+        versionGroupId,
+        version: Math.max(0, ...previousVersions.map(doc => doc.version || 1)) + 1,
+        isCurrentVersion: true
+      });
     });
     await this.removeOrphanedChunksAndEmbeddings();
   }
 
+  // A file is only a duplicate of one in the same project context, and an email attachment only of
+  // another attachment of the same message, so each context and email keeps its own copy
+  async findDocumentByHash(contentHash: string, scope: { context?: string; parentDocumentId?: string } = {}) {
+    return this.documents
+      .where({ contentHash })
+      .filter(doc => doc.metadata?.context === scope.context && doc.metadata?.parentDocumentId === scope.parentDocumentId)
+      .first();
+  }
+
+  async getVersions(versionGroupId: string) {
+    const versions = await this.documents.where({ versionGroupId }).toArray();
+    return versions.sort((a, b) => (b.version || 1) - (a.version || 1));
+  }
+
+  async setCurrentVersion(documentId: string) {
+    const document = await this.documents.get(documentId);
+    if (!document) return;
+
+    await this.transaction('rw', this.documents, async () => {
+      const versions = await this.documents.where({ versionGroupId: document.versionGroupId || document.id }).toArray();
+      await this.documents.bulkPut(versions.map(doc => ({ ...doc, isCurrentVersion: doc.id === documentId })));
+      await this.setChildrenCurrent(versions.filter(doc => doc.id !== documentId).map(doc => doc.id), false);
+      await this.setChildrenCurrent([documentId], true);
+    });
+  }
+
+  // Attachments are searched only while the email they came with is the current version
+  private async setChildrenCurrent(parentIds: string[], isCurrentVersion: boolean) {
+    if (parentIds.length === 0) return;
+    const parentIdSet = new Set(parentIds);
+    await this.documents
+      .filter(doc => parentIdSet.has(doc.metadata?.parentDocumentId))
+      .modify({ isCurrentVersion });
+  }
+
   async getDocuments() {
     return this.documents.toArray();
   }
@@ -47,8 +185,76 @@ export class Database extends Dexie {
     return this.documents.get(id);
   }
 
+  async getDocumentIdsForScope(scope: RetrievalScope): Promise<string[] | null> {
+    const searchesWholeLibrary = scope.mode === 'library' || (scope.mode === 'context' && !scope.contextId);
+
+    // A null result means the whole library is in scope, which only holds while no superseded versions
+    // exist and no document filters apply
+    if (
+      searchesWholeLibrary &&
+      !hasDocumentFilters(scope.filters) &&
+      !(await this.documents.filter(doc => doc.isCurrentVersion === false).first())
+    ) {
+      return null;
+    }
+
+    const tags = scope.tags || [];
+
+    return this.documents
+      .filter(doc => {
+        // Retrieval only sees the current version of each document
+        if (doc.isCurrentVersion === false || !matchesDocumentFilters(doc, scope.filters)) {
+          return false;
+        }
+        if (searchesWholeLibrary) {
+          return true;
+        }
+        if (scope.mode === 'context') {
+          return doc.metadata?.context === scope.contextId;
+        }
+        const docTags: string[] = doc.metadata?.tags || [];
+        return tags.some(tag => docTags.includes(tag));
+      })
+      .primaryKeys();
+  }
+
+  // Chunks of the given documents that pass chunk-level filters such as page ranges,
+  // or null when no chunk-level filter applies
+  async getChunkIdsForFilters(documentIds: string[] | null, filters?: QueryFilters): Promise<string[] | null> {
+    if (!hasChunkFilters(filters)) {
+      return null;
+    }
+
+    const chunks = documentIds ? this.chunks.where('documentId').anyOf(documentIds) : this.chunks.toCollection();
+    return chunks.filter(chunk => matchesChunkFilters(chunk, filters)).primaryKeys();
+  }
+
+  async getDocumentNames(): Promise<string[]> {
+    return (await this.documents.orderBy('name').uniqueKeys()).map(String);
+  }
+
+  async getAllTags(): Promise<string[]> {
+    const tags = new Set<string>();
+    await this.documents.each(doc => {
+      (doc.metadata?.tags || []).forEach((tag: string) => tags.add(tag));
+    });
+    return Array.from(tags).sort();
+  }
+
+  async updateDocumentMetadata(id: string, metadata: Record<string, unknown>) {
+    const document = await this.documents.get(id);
+    if (document) {
+      await this.documents.update(id, { metadata: { ...document.metadata, ...metadata } });
+    }
+  }
+
   async addChunks(chunks: ChunkRecord[]) {
-    await this.chunks.bulkPut(chunks);
+    const { postings, lengths } = buildKeywordEntries(chunks);
+    await this.transaction('rw', [this.chunks, this.postings, this.chunkLengths], async () => {
+      await this.chunks.bulkPut(chunks);
+      await this.postings.bulkPut(postings);
+      await this.chunkLengths.bulkPut(lengths);
+    });
     await this.removeOrphanedChunksAndEmbeddings();
   }
 
@@ -56,11 +262,113 @@ export class Database extends Dexie {
     return this.chunks.where({ documentId }).toArray();
   }
 
+  async addParentChunks(parents: ChunkRecord[]) {
+    await this.parentChunks.bulkPut(parents);
+  }
+
+  // The passages of a document the LLM reads: its parent chunks, or its chunks for documents without parents
+  async getPassages(documentId: string): Promise<ChunkRecord[]> {
+    const parents = await this.parentChunks.where({ documentId }).toArray();
+    return parents.length > 0 ? parents : this.getChunks(documentId);
+  }
+
+  // Parents of the given chunks in the same order, each only once. Chunks without a parent stand for themselves.
+  async getPassagesForChunks(chunks: ChunkRecord[]): Promise<ChunkRecord[]> {
+    const parentIds = chunks.map(chunk => chunk.metadata.parentId).filter((id): id is string => !!id);
+    const parents = new Map((await this.parentChunks.bulkGet(parentIds))
+      .filter((parent): parent is ChunkRecord => !!parent)
+      .map(parent => [parent.id, parent]));
+
+    const seen = new Set<string>();
+    return chunks.flatMap(chunk => {
+      const passage = (chunk.metadata.parentId && parents.get(chunk.metadata.parentId)) || chunk;
+      if (seen.has(passage.id)) return [];
+      seen.add(passage.id);
+      return [passage];
+    });
+  }
+
   async addEmbeddings(embeddings: EmbeddingRecord[]) {
-    await this.embeddings.bulkPut(embeddings);
+    await this.transaction('rw', [this.embeddings, this.vectorIndexes], async () => {
+      await this.embeddings.bulkPut(await this.assignVectorLists(embeddings));
+    });
+    await this.updateVectorIndexes(embeddings.map(embedding => embedding.model));
     await this.removeOrphanedChunksAndEmbeddings();
   }
 
+  // Swap the vectors of the given chunks for new ones, e.g. after changing embedding model
+  async replaceEmbeddings(embeddings: EmbeddingRecord[]) {
+    await this.transaction('rw', [this.embeddings, this.vectorIndexes], async () => {
+      await this.embeddings.where('chunkId').anyOf(embeddings.map(embedding => embedding.chunkId)).delete();
+      await this.embeddings.bulkPut(await this.assignVectorLists(embeddings));
+    });
+    await this.updateVectorIndexes(embeddings.map(embedding => embedding.model));
+  }
+
+  // The IVF index for a model as last trained. Training happens when vectors are stored, usually in
+  // the ingestion worker, never here, so searches don't wait for k-means and use exact search until
+  // an index exists.
+  async getVectorIndex(model: string): Promise<VectorIndexRecord | undefined> {
+    return this.vectorIndexes.get(model);
+  }
+
+  // Vectors stored for a model, optionally only those of the given chunks; reads only the index
+  async countEmbeddings(model: string, chunkIds: string[] | null = null): Promise<number> {
+    return chunkIds
+      ? this.embeddings.where('[model+chunkId]').anyOf(chunkIds.map(chunkId => [model, chunkId])).count()
+      : this.embeddings.where('model').equals(model).count();
+  }
+
+  // Retrain the centroids for a model and move every vector to its nearest list
+  async rebuildVectorIndex(model: string): Promise<VectorIndexRecord | undefined> {
+    return this.transaction('rw', [this.embeddings, this.vectorIndexes], async () => {
+      const embeddings = await this.embeddings.where('model').equals(model).toArray();
+      if (embeddings.length === 0) {
+        await this.vectorIndexes.delete(model);
+        return undefined;
+      }
+
+      const index = trainVectorIndex(model, embeddings.map(embedding => embedding.vector));
+      await this.vectorIndexes.put(index);
+      await this.embeddings.bulkPut(embeddings.map(embedding => ({ ...embedding, listId: nearestList(embedding.vector, index) })));
+      return index;
+    });
+  }
+
+  // New vectors join the nearest list of their model's index, if it has one
+  private async assignVectorLists(embeddings: EmbeddingRecord[]): Promise<EmbeddingRecord[]> {
+    const models = Array.from(new Set(embeddings.map(embedding => embedding.model)));
+    const indexes = new Map((await this.vectorIndexes.bulkGet(models))
+      .filter((index): index is VectorIndexRecord => !!index)
+      .map(index => [index.model, index]));
+
+    return embeddings.map(embedding => {
+      const index = indexes.get(embedding.model);
+      return index && index.dimension === embedding.dimension
+        ? { ...embedding, listId: nearestList(embedding.vector, index) }
+        : embedding;
+    });
+  }
+
+  // Train the index of each model that has reached the size for one or outgrown the one it has
+  private async updateVectorIndexes(models: string[]) {
+    for (const model of new Set(models)) {
+      const index = await this.vectorIndexes.get(model);
+      if (needsTraining(index, await this.countEmbeddings(model))) {
+        await this.rebuildVectorIndex(model);
+      }
+    }
+  }
+
+  // Number of stored vectors per embedding model
+  async getEmbeddingModelCounts(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const model of await this.embeddings.orderBy('model').uniqueKeys()) {
+      counts[String(model)] = await this.embeddings.where('model').equals(model).count();
+    }
+    return counts;
+  }
+
   async searchSimilarChunks(queryVector: number[], limit = 5) {
     // This is a simplified version - in a real app, you'd implement 
     // vector similarity search (cosine similarity, dot product, etc.)
@@ -86,32 +394,147 @@ export class Database extends Dexie {
     return chunks.filter(Boolean) as ChunkRecord[];
   }
 
+  async createConversation(contextId: string, title: string): Promise<ConversationRecord> {
+    const now = new Date().toISOString();
+    const conversation: ConversationRecord = {
+      id: uuidv4(),
+      contextId,
+      title,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.conversations.add(conversation);
+    return conversation;
+  }
+
+  // Most recently active first
+  async getConversations(contextId: string): Promise<ConversationRecord[]> {
+    const conversations = await this.conversations.where('contextId').equals(contextId).toArray();
+    return conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // Conversations whose title or any message contains the text, ignoring case
+  async searchConversations(contextId: string, text: string): Promise<ConversationRecord[]> {
+    const conversations = await this.getConversations(contextId);
+    const wanted = text.trim().toLowerCase();
+    if (!wanted) {
+      return conversations;
+    }
+
+    const matchingIds = new Set(await this.messages
+      .where('conversationId').anyOf(conversations.map(conversation => conversation.id))
+      .filter(message => message.content.toLowerCase().includes(wanted))
+      .toArray(messages => messages.map(message => message.conversationId)));
+    return conversations.filter(conversation =>
+      conversation.title.toLowerCase().includes(wanted) || matchingIds.has(conversation.id)
+    );
+  }
+
+  async renameConversation(id: string, title: string) {
+    await this.conversations.update(id, { title });
+  }
+
+  async deleteConversation(id: string) {
+    await this.transaction('rw', [this.conversations, this.messages], async () => {
+      await this.messages.where('conversationId').equals(id).delete();
+      await this.conversations.delete(id);
+    });
+  }
+
+  async getMessages(conversationId: string): Promise<MessageRecord[]> {
+    return this.messages
+      .where('[conversationId+createdAt]')
+      .between([conversationId, Dexie.minKey], [conversationId, Dexie.maxKey])
+      .toArray();
+  }
+
+  // Saving a message also moves its conversation to the top of the list
+  async saveMessage(message: MessageRecord) {
+    await this.transaction('rw', [this.conversations, this.messages], async () => {
+      await this.messages.put(message);
+      await this.conversations.update(message.conversationId, { updatedAt: new Date().toISOString() });
+    });
+  }
+
   async removeDocument(documentId: string) {
-    // Remove the document
+    const document = await this.documents.get(documentId);
+
+    // Remove the document along with any child documents, such as email attachments
+    const childIds = await this.documents
+      .filter(doc => doc.metadata?.parentDocumentId === documentId)
+      .primaryKeys();
+    for (const childId of childIds) {
+      await this.removeDocument(childId);
+    }
+
     await this.documents.delete(documentId);
+
+    // Promote the newest remaining version when the current one is removed
+    if (document?.isCurrentVersion && document.versionGroupId) {
+      const [newest] = await this.getVersions(document.versionGroupId);
+      if (newest) {
+        await this.setCurrentVersion(newest.id);
+      }
+    }
+
     await this.removeOrphanedChunksAndEmbeddings();
   }
 
+  // Remove whatever a cancelled or interrupted ingestion job managed to store
+  async removeDocumentsForJob(jobId: string) {
+    const documentIds = await this.documents
+      .filter(doc => doc.metadata?.ingestionJobId === jobId)
+      .primaryKeys();
+    for (const documentId of documentIds) {
+      await this.removeDocument(documentId);
+    }
+  }
+
   async removeOrphanedChunksAndEmbeddings() {
-    // Get all document IDs
-    const documentIds = await this.documents.toCollection().primaryKeys();
+    // Everything below compares keys read from indexes, so no chunk text or vector is loaded
+    const documentIdSet = new Set(await this.documents.toCollection().primaryKeys());
 
-    // Remove orphaned chunks
-    const orphanedChunks = await this.chunks
-      .filter(chunk => !documentIds.includes(chunk.documentId))
-      .toArray();
-    const orphanedChunkIds = orphanedChunks.map(chunk => chunk.id);
-    await this.chunks.bulkDelete(orphanedChunkIds);
+    // Remove chunks and parent chunks of documents that no longer exist
+    const orphanedDocumentIds = ((await this.chunks.orderBy('documentId').uniqueKeys()) as string[])
+      .filter(documentId => !documentIdSet.has(documentId));
+    if (orphanedDocumentIds.length > 0) {
+      await this.chunks.where('documentId').anyOf(orphanedDocumentIds).delete();
+    }
+    const orphanedParentDocumentIds = ((await this.parentChunks.orderBy('documentId').uniqueKeys()) as string[])
+      .filter(documentId => !documentIdSet.has(documentId));
+    if (orphanedParentDocumentIds.length > 0) {
+      await this.parentChunks.where('documentId').anyOf(orphanedParentDocumentIds).delete();
+    }
 
-    // Reload all chunks to get the current state
-    const allChunkIds = await this.chunks.toCollection().primaryKeys();
+    const chunkIdSet = new Set(await this.chunks.toCollection().primaryKeys());
 
-    // Remove orphaned embeddings
-    const orphanedEmbeddings = await this.embeddings
-      .filter(embedding => !allChunkIds.includes(embedding.chunkId))
-      .toArray();
-    const orphanedEmbeddingIds = orphanedEmbeddings.map(embedding => embedding.id);
-    await this.embeddings.bulkDelete(orphanedEmbeddingIds);
+    // Remove vectors of chunks that no longer exist
+    const orphanedEmbeddedChunkIds = ((await this.embeddings.orderBy('chunkId').uniqueKeys()) as string[])
+      .filter(chunkId => !chunkIdSet.has(chunkId));
+    if (orphanedEmbeddedChunkIds.length > 0) {
+      await this.embeddings.where('chunkId').anyOf(orphanedEmbeddedChunkIds).delete();
+    }
+
+    // Removed vectors leave their IVF lists with their rows; drop indexes of models with no vectors left
+    const indexedModels = new Set(await this.embeddings.orderBy('model').uniqueKeys());
+    const unusedIndexes = (await this.vectorIndexes.toCollection().primaryKeys())
+      .filter(model => !indexedModels.has(model));
+    await this.vectorIndexes.bulkDelete(unusedIndexes);
+
+    // Remove keyword index entries for chunks that no longer exist
+    const orphanedIndexedChunkIds = (await this.chunkLengths.toCollection().primaryKeys())
+      .filter(chunkId => !chunkIdSet.has(chunkId));
+    if (orphanedIndexedChunkIds.length > 0) {
+      await this.postings.where('chunkId').anyOf(orphanedIndexedChunkIds).delete();
+      await this.chunkLengths.bulkDelete(orphanedIndexedChunkIds);
+    }
+
+    // Cached reranker scores refer to chunks by id too
+    const rescoredChunkIds = (await this.rerankScores.orderBy('chunkId').uniqueKeys()) as string[];
+    const orphanedRescoredChunkIds = rescoredChunkIds.filter(chunkId => !chunkIdSet.has(chunkId));
+    if (orphanedRescoredChunkIds.length > 0) {
+      await this.rerankScores.where('chunkId').anyOf(orphanedRescoredChunkIds).delete();
+    }
   }
 }
 
@@ -123,6 +546,12 @@ export interface DocumentRecord {
   rawContent?: string;
   metadata?: Record<string, any>;
   uploadDate: string;
+  // SHA-256 of the original file, used to detect duplicate uploads
+  contentHash?: string;
+  // All versions of a document share the id of the first version
+  versionGroupId?: string;
+  version?: number;
+  isCurrentVersion?: boolean;
 }
 
 export interface ChunkRecord {
@@ -132,6 +561,13 @@ export interface ChunkRecord {
   metadata: {
     pageNumber?: number;
     position?: { start: number; end: number };
+    boundingBox?: BoundingBox;
+    boundingBoxes?: BoundingBox[];
+    pageSize?: { width: number; height: number };
+    // Enclosing headings for structured documents, outermost first
+    headingPath?: string[];
+    // Parent chunk this child was cut from, see Database.parentChunks
+    parentId?: string;
     [key: string]: any;
   };
 }
@@ -139,6 +575,101 @@ export interface ChunkRecord {
 export interface EmbeddingRecord {
   id: string;
   chunkId: string;
-  vector: number[];
-  tokens: string[];
-}
\ No newline at end of file
+  vector: Float32Array;
+  // Embedding model id, e.g. "use:universal-sentence-encoder" or "openai:text-embedding-3-small"
+  model: string;
+  dimension: number;
+  // IVF list (nearest centroid) of the vector, once its model has an index
+  listId?: number;
+}
+
+// Inverted file index over the vectors of one embedding model
+export interface VectorIndexRecord {
+  model: string;
+  dimension: number;
+  listCount: number;
+  // Unit-length centroids of every list, one after another
+  centroids: Float32Array;
+  // Number of vectors the centroids were trained on
+  trainedOn: number;
+  updatedAt: string;
+}
+
+// One entry per distinct term in a chunk
+export interface PostingRecord {
+  term: string;
+  chunkId: string;
+  documentId: string;
+  frequency: number;
+}
+
+export interface ChunkLengthRecord {
+  chunkId: string;
+  documentId: string;
+  // Number of tokens in the chunk, for BM25 length normalisation
+  length: number;
+}
+
+// Relevance of a chunk to a question as judged by the LLM reranker
+export interface RerankScoreRecord {
+  // Provider and model that gave the score, e.g. "openai:gpt-4o"
+  scorer: string;
+  // Question, lowercased with whitespace collapsed
+  query: string;
+  chunkId: string;
+  // 0 (irrelevant) to 10 (directly answers the question)
+  score: number;
+  createdAt: string;
+}
+
+export interface ConversationRecord {
+  id: string;
+  // Project context the conversation was started in; it is only listed there
+  contextId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MessageRecord {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  contextId: string;
+  // Provider and model that wrote an answer
+  provider?: string;
+  model?: string;
+  sources?: AnswerSource[];
+  transformations?: QueryTransformation;
+  standaloneQuery?: string;
+  // The answer was stopped before it finished
+  stopped?: boolean;
+  // The question could not be answered; left out of the conversation history
+  error?: boolean;
+}
+
+export type IngestionJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'duplicate';
+
+export interface IngestionJobRecord {
+  id: string;
+  // Files queued together share a batch id so progress can be reported for the whole batch
+  batchId: string;
+  // Order of the file within its batch
+  position: number;
+  fileName: string;
+  relativePath: string;
+  // The original file is kept until the job completes so it can be retried or resumed after a reload
+  file?: Blob;
+  lastModified: number;
+  metadata: Record<string, unknown>;
+  versionOf?: string;
+  status: IngestionJobStatus;
+  progress: number;
+  message: string;
+  error?: string;
+  documentId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
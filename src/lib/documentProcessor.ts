@@ -2,28 +2,136 @@ import { v4 as uuidv4 } from 'uuid';
 import * as pdfjs from 'pdfjs-dist';
 import mammoth from 'mammoth';
 import Tesseract from 'tesseract.js';
-import * as use from '@tensorflow-models/universal-sentence-encoder';
-import * as tf from '@tensorflow/tfjs';
 import { Database, ChunkRecord } from './db';
 import { DocumentMetadata } from './types';
+import { EmbeddingProvider } from './embeddingProvider';
+import { UniversalSentenceEncoderProvider } from './useEmbeddingProvider';
+import { ChunkingOptions, TextChunker, childChunkingOptions, getChunkingOptions } from './chunker';
+import { SpreadsheetContent, chunkSpreadsheet, formatSpreadsheet, parseSpreadsheet } from './spreadsheetParser';
+import { ParsedEmail, formatEmail, parseEml, parseMsg, splitMbox } from './emailParser';
+import { DocumentSection, StructuredText, getHeadingPath, parseDocxHtml } from './docxStructure';
+import { PageLayout, TextRegion, buildOcrLayout, buildPageLayout, getRegionBoxes, unionBoxes } from './pdfLayout';
 
 // Set the PDF.js worker source
 //import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.entry';
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs`;
 
+// Pages with fewer extractable characters than this are treated as scanned and sent through OCR
+const OCR_MIN_PAGE_CHARACTERS = 20;
+// Render scale for OCR; 2x the PDF's 72 DPI gives Tesseract enough resolution for typed letters
+const OCR_RENDER_SCALE = 2;
+// Inline images smaller than this are treated as signatures or logos and not ingested
+const MIN_INLINE_ATTACHMENT_BYTES = 10 * 1024;
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+// PDF.js creates its scratch canvases, e.g. for scaling scanned images, with document.createElement
+// unless given a factory, and there is no document in the ingestion worker
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    if (width <= 0 || height <= 0) {
+      throw new Error('Invalid canvas size');
+    }
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    if (!canvasAndContext.canvas) {
+      throw new Error('Canvas is not specified');
+    }
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// The default filter factory builds SVG filters in the document for transfer functions and
+// luminosity masks; without one those effects are skipped, which makes no difference to OCR
+class NoFilterFactory {
+  addFilter() { return 'none'; }
+  addHCMFilter() { return 'none'; }
+  addAlphaFilter() { return 'none'; }
+  addLuminosityFilter() { return 'none'; }
+  addHighlightHCMFilter() { return 'none'; }
+  destroy() {}
+}
+
+// Outside a page PDF.js also has no document to load embedded fonts into, so glyphs are drawn as
+// paths instead
+function getPdfRenderingOptions() {
+  if (typeof document !== 'undefined') {
+    return {};
+  }
+  return { CanvasFactory: OffscreenCanvasFactory, FilterFactory: NoFilterFactory, disableFontFace: true };
+}
+
+function getDuplicateScope(metadata: DocumentMetadata): { context?: string; parentDocumentId?: string } {
+  return { context: metadata.context, parentDocumentId: metadata.parentDocumentId };
+}
+
+export class DuplicateDocumentError extends Error {
+  existingDocument: { id: string; name: string };
+
+  constructor(fileName: string, existingDocument: { id: string; name: string }) {
+    super(`${fileName} has already been uploaded as ${existingDocument.name}`);
+    this.name = 'DuplicateDocumentError';
+    this.existingDocument = existingDocument;
+  }
+}
+
+export interface ProcessFileOptions {
+  // Store the file as a new version of this version group instead of a separate document
+  versionOf?: string;
+}
+
+// Parents are what the LLM reads; children are what questions are matched against
+interface ChunkHierarchy {
+  parents: ChunkRecord[];
+  children: ChunkRecord[];
+}
+
+interface ExtractedPage {
+  pageNumber: number;
+  // Offset of the page text within the full document content
+  offset: number;
+  text: string;
+  regions?: TextRegion[];
+  pageSize?: { width: number; height: number };
+  // Set when the page text came from OCR rather than the PDF text layer
+  ocrConfidence?: number;
+}
+
 export class DocumentProcessor {
   private db: Database;
   private onProgressUpdate: (status: { isProcessing: boolean; progress: number; message: string }) => void;
+  private chunkingOverrides: Partial<Record<string, Partial<ChunkingOptions>>>;
+  private embeddingProvider: EmbeddingProvider;
 
   constructor(
     db: Database,
-    onProgressUpdate: (status: { isProcessing: boolean; progress: number; message: string }) => void
+    onProgressUpdate: (status: { isProcessing: boolean; progress: number; message: string }) => void,
+    chunkingOverrides: Partial<Record<string, Partial<ChunkingOptions>>> = {},
+    embeddingProvider: EmbeddingProvider = new UniversalSentenceEncoderProvider()
   ) {
     this.db = db;
     this.onProgressUpdate = onProgressUpdate;
+    this.chunkingOverrides = chunkingOverrides;
+    this.embeddingProvider = embeddingProvider;
   }
 
-  async processFile(file: File, metadata: DocumentMetadata = {}): Promise<string> {
+  async processFile(file: File, metadata: DocumentMetadata = {}, options: ProcessFileOptions = {}): Promise<string> {
     this.onProgressUpdate({
       isProcessing: true,
       progress: 0,
@@ -33,73 +141,80 @@ export class DocumentProcessor {
     try {
       let content = '';
       let rawContent = '';
-      const fileType = this.getFileType(file);
+      let pages: ExtractedPage[] | undefined;
+      let spreadsheet: SpreadsheetContent | undefined;
+      let sections: DocumentSection[] | undefined;
+      let chunkMetadata: Record<string, unknown> = {};
+      const documentMetadata: DocumentMetadata = {};
+      const fileType = DocumentProcessor.getFileType(file);
+
+      // Emails become a parent document with each attachment ingested as a child
+      if (fileType === 'email') {
+        return await this.processEmailFile(file, metadata, options);
+      }
+
+      // Identical files are only stored once per context
+      const contentHash = await this.hashContent(await file.arrayBuffer());
+      await this.ensureNotDuplicate(file.name, contentHash, metadata);
 
       // Extract text based on file type
       if (fileType === 'pdf') {
         const result = await this.extractTextFromPDF(file);
         content = result.content;
         rawContent = result.rawContent;
+        pages = result.pages;
+
+        const ocrPages = pages.filter(page => page.ocrConfidence !== undefined).map(page => page.pageNumber);
+        if (ocrPages.length > 0) {
+          documentMetadata.ocrPages = ocrPages;
+        }
       } else if (fileType === 'docx') {
-        content = await this.extractTextFromDOCX(file);
+        const result = await this.extractTextFromDOCX(file);
+        content = result.content;
         rawContent = content;
+        sections = result.sections;
       } else if (fileType === 'image') {
-        content = await this.extractTextFromImage(file);
+        const result = await this.extractTextFromImage(file);
+        content = result.text;
+        rawContent = content;
+        chunkMetadata = { ocr: true, ocrConfidence: result.confidence };
+      } else if (fileType === 'spreadsheet') {
+        spreadsheet = await this.extractTablesFromSpreadsheet(file);
+        content = spreadsheet.content;
         rawContent = content;
+        documentMetadata.sheets = spreadsheet.sheets.map(sheet => ({
+          name: sheet.table.sheetName,
+          headers: sheet.table.headers,
+          rowCount: sheet.table.rows.length
+        }));
       } else {
         // For plain text files
         content = await file.text();
         rawContent = content;
       }
 
-      this.onProgressUpdate({
-        isProcessing: true,
-        progress: 50,
-        message: `Extracted text from ${file.name}, creating document record...`
-      });
-
-      // Create document record
+      // Create the document record, chunks and embeddings
       const documentId = uuidv4();
-      await this.db.addDocument({
-        id: documentId,
-        name: file.name,
-        content: content,
-        type: fileType,
-        rawContent: rawContent,
-        metadata: {
-          ...metadata,
-          size: file.size,
-          lastModified: new Date(file.lastModified).toISOString()
-        }
-      });
-
-      // Create chunks from the document
-      this.onProgressUpdate({
-        isProcessing: true,
-        progress: 75,
-        message: `Creating text chunks for ${file.name}...`
-      });
-
-      const chunks = this.createChunks(documentId, content, fileType);
-      await this.db.addChunks(chunks);
-
-      // Generate real embeddings
-      this.onProgressUpdate({
-        isProcessing: true,
-        progress: 90,
-        message: `Creating embeddings for ${file.name}...`
-      });
-
-      const embeddings = await this.generateEmbeddings(chunks.map(chunk => chunk.content));
-
-      const embeddingRecords = chunks.map((chunk, index) => ({
-        id: uuidv4(),
-        chunkId: chunk.id,
-        vector: embeddings[index],
-        tokens: chunk.content.split(/\s+/).slice(0, 20) // Simplified tokens
-      }));
-
-      await this.db.addEmbeddings(embeddingRecords);
+      await this.storeDocument(
+        {
+          id: documentId,
+          name: file.name,
+          type: fileType,
+          content,
+          rawContent,
+          contentHash,
+          versionGroupId: options.versionOf,
+          metadata: {
+            ...metadata,
+            ...documentMetadata,
+            size: file.size,
+            lastModified: new Date(file.lastModified).toISOString()
+          }
+        },
+        () => spreadsheet
+          ? this.createTableChunks(documentId, spreadsheet, fileType)
+          : this.createChunks(documentId, content, fileType, pages, chunkMetadata, sections)
+      );
 
       this.onProgressUpdate({
         isProcessing: false,
@@ -119,7 +234,203 @@ export class DocumentProcessor {
     }
   }
 
-  private getFileType(file: File): string {
+  private async storeDocument(
+    document: {
+      id: string;
+      name: string;
+      type: string;
+      content: string;
+      rawContent: string;
+      contentHash: string;
+      versionGroupId?: string;
+      metadata: DocumentMetadata;
+    },
+    createChunks: () => ChunkHierarchy
+  ): Promise<void> {
+    this.onProgressUpdate({
+      isProcessing: true,
+      progress: 50,
+      message: `Extracted text from ${document.name}, creating document record...`
+    });
+
+    await this.db.addDocument(document);
+
+    // Create chunks from the document
+    this.onProgressUpdate({
+      isProcessing: true,
+      progress: 75,
+      message: `Creating text chunks for ${document.name}...`
+    });
+
+    const { parents, children: chunks } = createChunks();
+    await this.db.addParentChunks(parents);
+    await this.db.addChunks(chunks);
+
+    // Generate real embeddings
+    this.onProgressUpdate({
+      isProcessing: true,
+      progress: 90,
+      message: `Creating embeddings for ${document.name}...`
+    });
+
+    const embeddings = await this.embeddingProvider.embed(chunks.map(chunk => chunk.content));
+
+    const embeddingRecords = chunks.map((chunk, index) => ({
+      id: uuidv4(),
+      chunkId: chunk.id,
+      vector: Float32Array.from(embeddings[index]),
+      model: this.embeddingProvider.modelId,
+      dimension: embeddings[index].length
+    }));
+
+    await this.db.addEmbeddings(embeddingRecords);
+  }
+
+  // Returns the id of the first message; mailboxes produce one document per message
+  private async processEmailFile(file: File, metadata: DocumentMetadata, options: ProcessFileOptions): Promise<string> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    let emails: Array<{ email: ParsedEmail; contentHash: string }>;
+
+    if (extension === 'mbox') {
+      // Each message in a mailbox is hashed separately so re-exported mailboxes only add new mail
+      const messages = splitMbox(await file.text());
+      emails = await Promise.all(messages.map(async message => ({
+        email: await parseEml(message),
+        contentHash: await this.hashContent(message)
+      })));
+    } else {
+      const data = await file.arrayBuffer();
+      emails = [{ email: extension === 'msg' ? parseMsg(data) : await parseEml(data), contentHash: await this.hashContent(data) }];
+    }
+
+    if (emails.length === 0) {
+      throw new Error(`No email messages were found in ${file.name}`);
+    }
+    // A mailbox of several messages has no single document it could replace
+    if (options.versionOf && emails.length > 1) {
+      throw new Error(`${file.name} holds ${emails.length} messages, so it cannot be stored as a new version of one document. Upload it separately instead.`);
+    }
+
+    const documentIds: string[] = [];
+    let duplicate: { id: string; name: string } | undefined;
+    for (const [index, { email, contentHash }] of emails.entries()) {
+      const existing = await this.db.findDocumentByHash(contentHash, getDuplicateScope(metadata));
+      if (existing) {
+        duplicate ??= existing;
+        continue;
+      }
+
+      const name = emails.length > 1 ? `${email.subject || `Message ${index + 1}`} (${file.name})` : file.name;
+      documentIds.push(await this.processEmail(email, name, file, metadata, contentHash, options.versionOf));
+    }
+
+    // Every message has been uploaded before
+    if (documentIds.length === 0 && duplicate) {
+      throw new DuplicateDocumentError(file.name, { id: duplicate.id, name: duplicate.name });
+    }
+
+    this.onProgressUpdate({
+      isProcessing: false,
+      progress: 100,
+      message: `Completed processing ${file.name}`
+    });
+
+    return documentIds[0];
+  }
+
+  private async processEmail(
+    email: ParsedEmail,
+    name: string,
+    file: File,
+    metadata: DocumentMetadata,
+    contentHash: string,
+    versionOf?: string
+  ): Promise<string> {
+    const documentId = uuidv4();
+    const content = formatEmail(email);
+
+    await this.storeDocument(
+      {
+        id: documentId,
+        name,
+        type: 'email',
+        content,
+        rawContent: content,
+        contentHash,
+        versionGroupId: versionOf,
+        metadata: {
+          ...metadata,
+          from: email.from,
+          to: email.to,
+          cc: email.cc,
+          date: email.date,
+          subject: email.subject,
+          messageId: email.messageId,
+          ...(name !== file.name && { mailbox: file.name }),
+          size: file.size,
+          lastModified: new Date(file.lastModified).toISOString()
+        }
+      },
+      () => this.createChunks(documentId, content, 'email')
+    );
+
+    // Run each attachment through the regular extractors as a child of this message
+    const attachments: Array<{ fileName: string; documentId?: string; skipped?: string }> = [];
+    for (const attachment of email.attachments) {
+      if (attachment.inline && attachment.mimeType.startsWith('image/') && attachment.content.byteLength < MIN_INLINE_ATTACHMENT_BYTES) {
+        continue;
+      }
+
+      const attachmentFile = new File([attachment.content], attachment.fileName, {
+        type: attachment.mimeType,
+        lastModified: email.date ? new Date(email.date).getTime() || file.lastModified : file.lastModified
+      });
+
+      if (!DocumentProcessor.isSupportedFile(attachmentFile)) {
+        attachments.push({ fileName: attachment.fileName, skipped: 'Unsupported file type' });
+        continue;
+      }
+
+      try {
+        const attachmentId = await this.processFile(attachmentFile, {
+          ...metadata,
+          parentDocumentId: documentId
+        });
+        attachments.push({ fileName: attachment.fileName, documentId: attachmentId });
+      } catch (error) {
+        attachments.push({
+          fileName: attachment.fileName,
+          skipped: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (attachments.length > 0) {
+      await this.db.updateDocumentMetadata(documentId, { attachments });
+    }
+
+    return documentId;
+  }
+
+  private async hashContent(data: ArrayBuffer | string): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private async ensureNotDuplicate(fileName: string, contentHash: string, metadata: DocumentMetadata) {
+    const existing = await this.db.findDocumentByHash(contentHash, getDuplicateScope(metadata));
+    if (existing) {
+      throw new DuplicateDocumentError(fileName, { id: existing.id, name: existing.name });
+    }
+  }
+
+  static isSupportedFile(file: File): boolean {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    return DocumentProcessor.getFileType(file) !== 'text' || ['txt', 'md', 'text', 'log', 'json', 'xml', 'html', 'htm'].includes(extension);
+  }
+
+  private static getFileType(file: File): string {
     const extension = file.name.split('.').pop()?.toLowerCase() || '';
 
     if (['pdf'].includes(extension)) {
@@ -128,19 +439,24 @@ export class DocumentProcessor {
       return 'docx';
     } else if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'tiff', 'tif'].includes(extension)) {
       return 'image';
+    } else if (['csv', 'tsv', 'xlsx', 'xls', 'ods'].includes(extension)) {
+      return 'spreadsheet';
+    } else if (['eml', 'mbox', 'msg'].includes(extension)) {
+      return 'email';
     } else {
       return 'text';
     }
   }
 
-  private async extractTextFromPDF(file: File): Promise<{ content: string; rawContent: string }> {
+  private async extractTextFromPDF(file: File): Promise<{ content: string; rawContent: string; pages: ExtractedPage[] }> {
     const arrayBuffer = await file.arrayBuffer();
 
     // Load the PDF document with proper error handling
-    const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+    const pdf = await pdfjs.getDocument({ data: arrayBuffer, ...getPdfRenderingOptions() }).promise;
 
     let fullText = '';
     let rawContent = '';
+    const pages: ExtractedPage[] = [];
 
     // Process each page with proper error handling
     for (let i = 1; i <= pdf.numPages; i++) {
@@ -154,12 +470,30 @@ export class DocumentProcessor {
         const page = await pdf.getPage(i);
         const textContent = await page.getTextContent();
 
-        // Extract text items
-        const pageText = textContent.items
-          .map(item => 'str' in item ? item.str : '')
-          .join(' ');
+        // Extract text items along with their positions on the page
+        let layout: PageLayout = buildPageLayout(textContent.items, page.getViewport({ scale: 1 }));
+        let ocrConfidence: number | undefined;
 
-        fullText += `Page ${i}:\n${pageText}\n\n`;
+        // Scanned pages have no text layer, so read them with OCR instead
+        if (layout.text.replace(/\s/g, '').length < OCR_MIN_PAGE_CHARACTERS) {
+          const ocrResult = await this.extractTextFromPDFPageImage(page, i, pdf.numPages);
+          if (ocrResult.layout.text.trim()) {
+            layout = ocrResult.layout;
+            ocrConfidence = ocrResult.confidence;
+          }
+        }
+        const pageText = layout.text;
+
+        const header = `Page ${i}:\n`;
+        pages.push({
+          pageNumber: i,
+          offset: fullText.length + header.length,
+          text: pageText,
+          regions: layout.regions,
+          pageSize: { width: layout.width, height: layout.height },
+          ocrConfidence
+        });
+        fullText += `${header}${pageText}\n\n`;
         rawContent += pageText + '\n';
       } catch (pageError) {
         console.error(`Error extracting text from page ${i}:`, pageError);
@@ -167,8 +501,8 @@ export class DocumentProcessor {
       }
     }
 
-    // If we couldn't extract any text, return an error message
-    if (!fullText.trim()) {
+    // If we couldn't extract any text, even with OCR, return an error message
+    if (pages.every(page => !page.text.trim())) {
       this.onProgressUpdate({
         isProcessing: false,
         progress: 0,
@@ -176,145 +510,186 @@ export class DocumentProcessor {
       });
       return {
         content: '[No text could be extracted from this PDF. It may be scanned or contain only images.]',
-        rawContent: ''
+        rawContent: '',
+        pages: []
       };
     }
 
-    return { content: fullText, rawContent };
+    return { content: fullText, rawContent, pages };
   }
 
-  private async extractTextFromDOCX(file: File): Promise<string> {
+  private async extractTextFromDOCX(file: File): Promise<StructuredText> {
     const arrayBuffer = await file.arrayBuffer();
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    return result.value;
+
+    // Convert to HTML to keep headings, lists and tables; embedded images are dropped
+    const result = await mammoth.convertToHtml({ arrayBuffer }, {
+      convertImage: mammoth.images.imgElement(async () => ({ src: '' }))
+    });
+    return parseDocxHtml(result.value);
+  }
+
+  private async extractTablesFromSpreadsheet(file: File): Promise<SpreadsheetContent> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const sheetName = file.name.replace(/\.[^.]+$/, '');
+
+    // Delimited text is parsed as a string so its encoding is decoded by the browser
+    const tables = ['csv', 'tsv'].includes(extension)
+      ? parseSpreadsheet(await file.text(), sheetName)
+      : parseSpreadsheet(await file.arrayBuffer(), sheetName);
+
+    if (tables.length === 0) {
+      throw new Error(`No tables with data were found in ${file.name}`);
+    }
+
+    return formatSpreadsheet(tables);
   }
 
-  private async extractTextFromImage(file: File): Promise<string> {
+  private async extractTextFromPDFPageImage(
+    page: pdfjs.PDFPageProxy,
+    pageNumber: number,
+    totalPages: number
+  ): Promise<{ layout: PageLayout; confidence: number }> {
     this.onProgressUpdate({
       isProcessing: true,
-      progress: 20,
-      message: `Performing OCR on image ${file.name}...`
+      progress: Math.floor((pageNumber / totalPages) * 40),
+      message: `No text layer on page ${pageNumber} of ${totalPages}, performing OCR...`
     });
 
-    const result = await Tesseract.recognize(file, 'eng', {
-      logger: m => {
-        if (m.status === 'recognizing text') {
-          this.onProgressUpdate({
-            isProcessing: true,
-            progress: 20 + Math.floor(m.progress * 20),
-            message: `OCR progress: ${Math.floor(m.progress * 100)}%`
-          });
-        }
-      }
-    });
+    // Render the page to a canvas and pass the image to Tesseract
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = this.createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const canvasContext = canvas.getContext('2d') as CanvasRenderingContext2D;
+    await page.render({ canvasContext, viewport }).promise;
+    const image = await this.canvasToBlob(canvas);
+
+    // Release the canvas memory before OCR starts
+    canvas.width = 0;
+    canvas.height = 0;
+
+    const result = await this.recognizeImage(image, `page ${pageNumber} of ${totalPages}`, (progress) => ({
+      progress: Math.floor(((pageNumber - 1 + progress) / totalPages) * 40),
+      message: `OCR page ${pageNumber} of ${totalPages}: ${Math.floor(progress * 100)}%`
+    }));
+
+    const pageViewport = page.getViewport({ scale: 1 });
+    return {
+      layout: buildOcrLayout(result.lines, OCR_RENDER_SCALE, pageViewport.width, pageViewport.height),
+      confidence: result.confidence
+    };
+  }
 
-    return result.data.text;
+  private createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+    if (typeof document === 'undefined') {
+      return new OffscreenCanvas(width, height);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
   }
 
-  private createChunks(documentId: string, content: string, fileType: string): ChunkRecord[] {
-    const chunks: ChunkRecord[] = [];
+  private canvasToBlob(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<Blob> {
+    if ('convertToBlob' in canvas) {
+      return canvas.convertToBlob({ type: 'image/png' });
+    }
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render page image for OCR')), 'image/png');
+    });
+  }
 
-    // Different chunking strategies based on file type
-    if (fileType === 'pdf') {
-      // Split by pages first
-      const pages = content.split(/Page \d+:/);
+  private async extractTextFromImage(file: File): Promise<{ text: string; confidence: number }> {
+    this.onProgressUpdate({
+      isProcessing: true,
+      progress: 20,
+      message: `Performing OCR on image ${file.name}...`
+    });
 
-      pages.forEach((pageContent, pageIndex) => {
-        if (!pageContent.trim()) return;
+    const result = await this.recognizeImage(file, file.name, (progress) => ({
+      progress: 20 + Math.floor(progress * 20),
+      message: `OCR progress: ${Math.floor(progress * 100)}%`
+    }));
 
-        // Further split each page into paragraphs or sections
-        const paragraphs = pageContent.split(/\n\s*\n/);
+    return { text: result.text, confidence: result.confidence };
+  }
 
-        paragraphs.forEach((paragraph) => {
-          if (paragraph.trim().length < 10) return; // Skip very short paragraphs
+  private async recognizeImage(
+    image: Blob,
+    label: string,
+    describeProgress: (progress: number) => { progress: number; message: string }
+  ): Promise<Tesseract.Page> {
+    try {
+      const result = await Tesseract.recognize(image, 'eng', {
+        logger: m => {
+          if (m.status === 'recognizing text') {
+            this.onProgressUpdate({ isProcessing: true, ...describeProgress(m.progress) });
+          }
+        }
+      });
+      return result.data;
+    } catch (error) {
+      throw new Error(`OCR failed for ${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private createChunks(
+    documentId: string,
+    content: string,
+    fileType: string,
+    pages?: ExtractedPage[],
+    chunkMetadata: Record<string, unknown> = {},
+    sections?: DocumentSection[]
+  ): ChunkHierarchy {
+    const options = getChunkingOptions(fileType, this.chunkingOverrides);
+    const chunker = new TextChunker(options);
+    const chunks: ChunkRecord[] = [];
+
+    if (options.strategy === 'page' && pages && pages.length > 0) {
+      // Chunk each page separately so no chunk spans a page boundary
+      pages.forEach(page => {
+        chunker.chunk(page.text, page.offset).forEach(textChunk => {
+          // Locate the chunk on the page so citations can highlight the exact region
+          const boundingBoxes = page.regions
+            ? getRegionBoxes(page.regions, textChunk.start - page.offset, textChunk.end - page.offset)
+            : [];
 
           chunks.push({
             id: uuidv4(),
             documentId,
-            content: paragraph.trim(),
+            content: textChunk.content,
             metadata: {
-              pageNumber: pageIndex,
-              position: {
-                start: pageContent.indexOf(paragraph),
-                end: pageContent.indexOf(paragraph) + paragraph.length
-              },
-              chunkType: 'paragraph'
+              ...chunkMetadata,
+              pageNumber: page.pageNumber,
+              position: { start: textChunk.start, end: textChunk.end },
+              chunkType: textChunk.chunkType,
+              ...(page.ocrConfidence !== undefined && { ocr: true, ocrConfidence: page.ocrConfidence }),
+              ...(boundingBoxes.length > 0 && {
+                boundingBox: unionBoxes(boundingBoxes),
+                boundingBoxes,
+                pageSize: page.pageSize
+              })
             }
           });
         });
       });
     } else {
-      // For other document types, split by paragraphs
-      const paragraphs = content.split(/\n\s*\n/);
-
-      paragraphs.forEach((paragraph, index) => {
-        if (paragraph.trim().length < 10) return; // Skip very short paragraphs
+      chunker.chunk(content).forEach(textChunk => {
+        // Record the headings the chunk sits under so citations can name the section
+        const headingPath = sections ? getHeadingPath(sections, textChunk.start) : [];
 
         chunks.push({
           id: uuidv4(),
           documentId,
-          content: paragraph.trim(),
+          content: textChunk.content,
           metadata: {
-            position: {
-              start: content.indexOf(paragraph),
-              end: content.indexOf(paragraph) + paragraph.length
-            },
-            chunkType: 'paragraph'
+            ...chunkMetadata,
+            position: { start: textChunk.start, end: textChunk.end },
+            chunkType: textChunk.chunkType,
+            ...(headingPath.length > 0 && { headingPath })
           }
         });
       });
     }
 
-    // If we have too few chunks, create more by splitting the existing ones
-    if (chunks.length < 5 && content.length > 1000) {
-      const sentences = content.match(/[^.!?]+[.!?]+/g) || [];
-
-      // Group sentences into chunks of reasonable size
-      let currentChunk = '';
-      let chunkStart = 0;
-
-      sentences.forEach((sentence) => {
-        if (currentChunk.length + sentence.length > 500) {
-          // Save current chunk and start a new one
-          if (currentChunk) {
-            chunks.push({
-              id: uuidv4(),
-              documentId,
-              content: currentChunk.trim(),
-              metadata: {
-                position: {
-                  start: chunkStart,
-                  end: chunkStart + currentChunk.length
-                },
-                chunkType: 'sentence-group'
-              }
-            });
-          }
-
-          currentChunk = sentence;
-          chunkStart = content.indexOf(sentence);
-        } else {
-          currentChunk += ' ' + sentence;
-        }
-      });
-
-      // Add the last chunk if there is one
-      if (currentChunk) {
-        chunks.push({
-          id: uuidv4(),
-          documentId,
-          content: currentChunk.trim(),
-          metadata: {
-            position: {
-              start: chunkStart,
-              end: chunkStart + currentChunk.length
-            },
-            chunkType: 'sentence-group'
-          }
-        });
-      }
-    }
-
     // Ensure we have at least one chunk even if content is empty or couldn't be processed
     if (chunks.length === 0) {
       chunks.push({
@@ -322,19 +697,70 @@ export class DocumentProcessor {
         documentId,
         content: content.trim() || "[No extractable text content]",
         metadata: {
+          ...chunkMetadata,
           chunkType: 'fallback'
         }
       });
     }
 
-    return chunks;
+    return {
+      parents: chunks,
+      children: chunks.flatMap(chunk => this.createChildChunks(chunk, pages))
+    };
+  }
+
+  private createChildChunks(parent: ChunkRecord, pages?: ExtractedPage[]): ChunkRecord[] {
+    const { position } = parent.metadata;
+    const textChunks = position ? new TextChunker(childChunkingOptions).chunk(parent.content, position.start) : [];
+
+    // A parent that is already small enough is matched as it is
+    if (textChunks.length <= 1) {
+      return [{ ...parent, id: uuidv4(), metadata: { ...parent.metadata, parentId: parent.id } }];
+    }
+
+    const page = pages?.find(candidate => candidate.pageNumber === parent.metadata.pageNumber);
+    return textChunks.map(textChunk => {
+      const boundingBoxes = page?.regions
+        ? getRegionBoxes(page.regions, textChunk.start - page.offset, textChunk.end - page.offset)
+        : [];
+      const metadata: ChunkRecord['metadata'] = {
+        ...parent.metadata,
+        parentId: parent.id,
+        position: { start: textChunk.start, end: textChunk.end },
+        chunkType: textChunk.chunkType
+      };
+      // Highlight the child's own lines rather than the whole parent
+      delete metadata.boundingBox;
+      delete metadata.boundingBoxes;
+
+      return {
+        id: uuidv4(),
+        documentId: parent.documentId,
+        content: textChunk.content,
+        metadata: boundingBoxes.length > 0
+          ? { ...metadata, boundingBox: unionBoxes(boundingBoxes), boundingBoxes }
+          : metadata
+      };
+    });
   }
 
-  private async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    await tf.setBackend('webgl'); // or 'wasm'
-    await tf.ready();
-    const model = await use.load();
-    const embeddings = await model.embed(texts);
-    return embeddings.arraySync();
+  // Row groups are small and self-contained, so they are matched and read as they are
+  private createTableChunks(documentId: string, spreadsheet: SpreadsheetContent, fileType: string): ChunkHierarchy {
+    const options = getChunkingOptions(fileType, this.chunkingOverrides);
+
+    const chunks = chunkSpreadsheet(spreadsheet, options.targetTokens).map(tableChunk => ({
+      id: uuidv4(),
+      documentId,
+      content: tableChunk.content,
+      metadata: {
+        position: { start: tableChunk.start, end: tableChunk.end },
+        chunkType: 'table',
+        sheetName: tableChunk.sheetName,
+        headerRow: tableChunk.headerRow,
+        headers: tableChunk.headers,
+        rowRange: tableChunk.rowRange
+      }
+    }));
+    return { parents: [], children: chunks };
   }
 }
\ No newline at end of file
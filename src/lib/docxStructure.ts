@@ -0,0 +1,197 @@
+export interface DocumentSection {
+  // Headings enclosing the section, outermost first, e.g. ["Scheme Rules", "Death Benefits", "Lump Sum"]
+  headingPath: string[];
+  start: number;
+  end: number;
+}
+
+export interface StructuredText {
+  content: string;
+  sections: DocumentSection[];
+}
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)[^>]*>|([^<]+)/g;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&');
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function formatTable(rows: string[][]): string {
+  const columns = Math.max(...rows.map(row => row.length));
+  const format = (cells: string[]) => `| ${Array.from({ length: columns }, (_, index) => (cells[index] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [format(header), `| ${Array(columns).fill('---').join(' | ')} |`, ...body.map(format)].join('\n');
+}
+
+// Turn mammoth's HTML into plain text that keeps headings (as markdown), lists and tables, and
+// record which heading path each part of the text sits under. Uses a tokenizer rather than
+// DOMParser so it also runs inside the ingestion worker.
+export function parseDocxHtml(html: string): StructuredText {
+  let content = '';
+  let previousWasListItem = false;
+  const sections: DocumentSection[] = [{ headingPath: [], start: 0, end: 0 }];
+  const headings: Array<{ level: number; text: string }> = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+
+  let buffer = '';
+  let listItemPrefix: string | null = null;
+  let headingLevel = 0;
+  let table: string[][] | null = null;
+  let tableDepth = 0;
+  let cell: string | null = null;
+
+  const appendBlock = (text: string, isListItem = false): number => {
+    if (content) {
+      content += isListItem && previousWasListItem ? '\n' : '\n\n';
+    }
+    const start = content.length;
+    content += text;
+    previousWasListItem = isListItem;
+    return start;
+  };
+
+  const flushBuffer = () => {
+    if (listItemPrefix !== null) {
+      const text = collapseWhitespace(buffer);
+      if (text) appendBlock(`${listItemPrefix}${text}`, true);
+      listItemPrefix = null;
+    } else {
+      const text = buffer.replace(/[^\S\n]+/g, ' ').replace(/ *\n */g, '\n').trim();
+      if (text) appendBlock(text);
+    }
+    buffer = '';
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [, closing, rawTag, text] = match;
+
+    if (text !== undefined) {
+      const decoded = decodeEntities(text);
+      if (cell !== null) {
+        cell += decoded;
+      } else {
+        buffer += decoded;
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const isClosing = closing === '/';
+
+    // Everything inside a table cell, including nested tables, becomes cell text
+    if (table && (tableDepth > 1 || (cell !== null && !['td', 'th'].includes(tag)))) {
+      if (tag === 'table') tableDepth += isClosing ? -1 : 1;
+      if (cell !== null) cell += ' ';
+      continue;
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      if (!isClosing) {
+        flushBuffer();
+        headingLevel = Number(tag[1]);
+        continue;
+      }
+
+      const heading = collapseWhitespace(buffer);
+      buffer = '';
+      if (heading) {
+        while (headings.length > 0 && headings[headings.length - 1].level >= headingLevel) {
+          headings.pop();
+        }
+        headings.push({ level: headingLevel, text: heading });
+
+        const start = appendBlock(`${'#'.repeat(headingLevel)} ${heading}`);
+        sections[sections.length - 1].end = start;
+        sections.push({ headingPath: headings.map(h => h.text), start, end: start });
+      }
+      headingLevel = 0;
+      continue;
+    }
+
+    switch (tag) {
+      case 'p':
+        if (listItemPrefix !== null) {
+          buffer += ' ';
+        } else {
+          flushBuffer();
+        }
+        break;
+      case 'br':
+        buffer += '\n';
+        break;
+      case 'ul':
+      case 'ol':
+        flushBuffer();
+        if (isClosing) {
+          lists.pop();
+          // Separate consecutive lists with a blank line
+          if (lists.length === 0) previousWasListItem = false;
+        } else {
+          lists.push({ ordered: tag === 'ol', count: 0 });
+        }
+        break;
+      case 'li': {
+        flushBuffer();
+        const list = lists[lists.length - 1];
+        if (!isClosing && list) {
+          list.count++;
+          listItemPrefix = `${'  '.repeat(lists.length - 1)}${list.ordered ? `${list.count}.` : '-'} `;
+        }
+        break;
+      }
+      case 'table':
+        if (isClosing) {
+          const rows = (table || []).filter(row => row.some(value => value));
+          if (rows.length > 0) appendBlock(formatTable(rows));
+          table = null;
+          tableDepth = 0;
+        } else {
+          flushBuffer();
+          table = [];
+          tableDepth = 1;
+        }
+        break;
+      case 'tr':
+        if (table && !isClosing) table.push([]);
+        break;
+      case 'td':
+      case 'th':
+        if (!table) break;
+        if (isClosing) {
+          if (table.length === 0) table.push([]);
+          table[table.length - 1].push(collapseWhitespace(cell || ''));
+          cell = null;
+        } else {
+          cell = '';
+        }
+        break;
+    }
+  }
+
+  flushBuffer();
+  sections[sections.length - 1].end = content.length;
+
+  return { content, sections: sections.filter(section => section.end > section.start) };
+}
+
+// The heading path of the section containing an offset in the structured text
+export function getHeadingPath(sections: DocumentSection[], offset: number): string[] {
+  let path: string[] = [];
+  for (const section of sections) {
+    if (section.start > offset) break;
+    path = section.headingPath;
+  }
+  return path;
+}
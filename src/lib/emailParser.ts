@@ -0,0 +1,133 @@
+import PostalMime, { Address } from 'postal-mime';
+import MsgReader from '@kenjiuno/msgreader';
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  content: Uint8Array;
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  from?: string;
+  to: string[];
+  cc: string[];
+  date?: string;
+  subject?: string;
+  messageId?: string;
+  body: string;
+  attachments: EmailAttachment[];
+}
+
+function formatAddress(address: Address): string[] {
+  if (address.group) {
+    return address.group.flatMap(formatAddress);
+  }
+  if (!address.address) return [address.name];
+  return [address.name ? `${address.name} <${address.address}>` : address.address];
+}
+
+function toIsoDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+// Reduce an HTML body to readable text. Runs without DOMParser so it also works inside workers.
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|table|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export async function parseEml(data: ArrayBuffer | string): Promise<ParsedEmail> {
+  const email = await PostalMime.parse(data, { attachmentEncoding: 'arraybuffer' });
+
+  return {
+    from: email.from ? formatAddress(email.from).join(', ') : undefined,
+    to: (email.to || []).flatMap(formatAddress),
+    cc: (email.cc || []).flatMap(formatAddress),
+    date: toIsoDate(email.date),
+    subject: email.subject,
+    messageId: email.messageId,
+    body: email.text?.trim() || htmlToText(email.html || ''),
+    attachments: email.attachments.map((attachment, index) => ({
+      fileName: attachment.filename || `attachment-${index + 1}`,
+      mimeType: attachment.mimeType,
+      content: typeof attachment.content === 'string'
+        ? new TextEncoder().encode(attachment.content)
+        : new Uint8Array(attachment.content),
+      inline: attachment.disposition === 'inline' || !!attachment.related
+    }))
+  };
+}
+
+export function parseMsg(data: ArrayBuffer): ParsedEmail {
+  const reader = new MsgReader(data);
+  const message = reader.getFileData();
+
+  if (message.error) {
+    throw new Error(`Could not read Outlook message: ${message.error}`);
+  }
+
+  const recipients = (message.recipients || []).map(recipient => ({
+    type: recipient.recipType,
+    address: recipient.email && recipient.name && recipient.name !== recipient.email
+      ? `${recipient.name} <${recipient.email}>`
+      : recipient.email || recipient.name || ''
+  }));
+
+  return {
+    from: message.senderEmail
+      ? (message.senderName ? `${message.senderName} <${message.senderEmail}>` : message.senderEmail)
+      : message.senderName,
+    to: recipients.filter(recipient => recipient.type !== 'cc' && recipient.type !== 'bcc').map(recipient => recipient.address),
+    cc: recipients.filter(recipient => recipient.type === 'cc').map(recipient => recipient.address),
+    date: toIsoDate(message.messageDeliveryTime || message.clientSubmitTime),
+    subject: message.subject,
+    body: message.body?.trim() || '',
+    attachments: (message.attachments || [])
+      .filter(attachment => !attachment.innerMsgContent)
+      .map((attachment, index) => {
+        const data = reader.getAttachment(attachment);
+        return {
+          fileName: data.fileName || attachment.fileName || `attachment-${index + 1}`,
+          mimeType: attachment.attachMimeTag || 'application/octet-stream',
+          content: data.content,
+          inline: !!attachment.attachmentHidden
+        };
+      })
+  };
+}
+
+// Split an mbox mailbox into raw RFC 822 messages
+export function splitMbox(text: string): string[] {
+  return text
+    .split(/^From .*\r?\n/m)
+    .map(message => message.replace(/^>(>*From )/gm, '$1').trim())
+    .filter(Boolean);
+}
+
+export function formatEmail(email: ParsedEmail): string {
+  const header = [
+    email.from && `From: ${email.from}`,
+    email.to.length > 0 && `To: ${email.to.join(', ')}`,
+    email.cc.length > 0 && `Cc: ${email.cc.join(', ')}`,
+    email.date && `Date: ${email.date}`,
+    email.subject && `Subject: ${email.subject}`,
+    email.attachments.length > 0 && `Attachments: ${email.attachments.map(attachment => attachment.fileName).join(', ')}`
+  ].filter(Boolean).join('\n');
+
+  return `${header}\n\n${email.body}`;
+}
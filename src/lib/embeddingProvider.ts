@@ -0,0 +1,16 @@
+export interface EmbeddingProvider {
+  // Identifies the model that produced a vector, e.g. "openai:text-embedding-3-small".
+  // Vectors are only ever compared with vectors from the same model.
+  readonly modelId: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderType = 'use' | 'openai' | 'gemini' | 'local';
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderType;
+  model?: string;
+  // Base URL of an OpenAI-compatible server for the local provider, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+  apiKey?: string;
+}
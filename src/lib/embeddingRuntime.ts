@@ -0,0 +1,121 @@
+// The encoder has no release for TensorFlow.js 4 and imports tfjs-core and tfjs-converter itself,
+// so the whole TensorFlow.js stack stays on 3.x. A second copy of tfjs-core would keep its own
+// backend registry and the encoder would find no backend to run on.
+import * as use from '@tensorflow-models/universal-sentence-encoder';
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths, version_wasm } from '@tensorflow/tfjs-backend-wasm';
+
+const MODEL_URL = 'https://tfhub.dev/tensorflow/tfjs-model/universal-sentence-encoder-lite/1/default/1';
+const VOCAB_URL = 'https://storage.googleapis.com/tfjs-models/savedmodel/universal_sentence_encoder/vocab.json';
+// Weights are kept in IndexedDB and the vocabulary in Cache Storage so later loads work offline
+const CACHED_MODEL_URL = 'indexeddb://universal-sentence-encoder-lite';
+const VOCAB_CACHE_NAME = 'embedding-models';
+
+// Preferred first; WebGL is unavailable in some workers and headless browsers
+const BACKENDS = ['webgl', 'wasm', 'cpu'];
+// Texts embedded per forward pass, so long documents don't exhaust GPU or WASM memory
+const BATCH_SIZE = 32;
+
+// The WASM binaries are served from a CDN, like the PDF.js worker
+setWasmPaths(`https://unpkg.com/@tensorflow/tfjs-backend-wasm@${version_wasm}/dist/`);
+
+export interface EmbeddingRuntime {
+  backend: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Loads the graph model from the local cache, downloading and caching it on first use
+class CachedUniversalSentenceEncoder extends use.UniversalSentenceEncoder {
+  async loadModel(): Promise<tf.GraphModel> {
+    try {
+      if (CACHED_MODEL_URL in await tf.io.listModels()) {
+        return await tf.loadGraphModel(CACHED_MODEL_URL);
+      }
+    } catch (error) {
+      console.warn('Cached embedding model could not be loaded, downloading it again:', error);
+    }
+
+    const model = await tf.loadGraphModel(MODEL_URL, { fromTFHub: true });
+    try {
+      await model.save(CACHED_MODEL_URL);
+    } catch (error) {
+      console.warn('Embedding model could not be cached:', error);
+    }
+    return model;
+  }
+}
+
+async function selectBackend(): Promise<string> {
+  for (const backend of BACKENDS) {
+    try {
+      if (await tf.setBackend(backend)) {
+        await tf.ready();
+        return backend;
+      }
+    } catch (error) {
+      console.warn(`TensorFlow.js backend ${backend} is unavailable:`, error);
+    }
+  }
+  throw new Error('No TensorFlow.js backend could be initialised');
+}
+
+// Returns a blob URL for the cached vocabulary, or the remote URL when Cache Storage is unavailable
+async function getVocabularyUrl(): Promise<string> {
+  if (typeof caches === 'undefined') return VOCAB_URL;
+
+  try {
+    const cache = await caches.open(VOCAB_CACHE_NAME);
+    let response = await cache.match(VOCAB_URL);
+    if (!response) {
+      await cache.add(VOCAB_URL);
+      response = await cache.match(VOCAB_URL);
+    }
+    return response ? URL.createObjectURL(await response.blob()) : VOCAB_URL;
+  } catch (error) {
+    console.warn('Embedding vocabulary could not be cached:', error);
+    return VOCAB_URL;
+  }
+}
+
+async function createRuntime(): Promise<EmbeddingRuntime> {
+  const backend = await selectBackend();
+  const vocabUrl = await getVocabularyUrl();
+  const encoder = new CachedUniversalSentenceEncoder();
+
+  try {
+    await encoder.load({ vocabUrl });
+  } finally {
+    if (vocabUrl.startsWith('blob:')) URL.revokeObjectURL(vocabUrl);
+  }
+
+  return {
+    backend,
+    async embed(texts: string[]): Promise<number[][]> {
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+        const embeddings = await encoder.embed(texts.slice(start, start + BATCH_SIZE));
+        try {
+          vectors.push(...await embeddings.array());
+        } finally {
+          embeddings.dispose();
+        }
+      }
+      return vectors;
+    }
+  };
+}
+
+let runtimePromise: Promise<EmbeddingRuntime> | null = null;
+
+// One model per JavaScript context: the main thread (search) and the ingestion worker each load
+// it once on first use and share the cached weights.
+export function getEmbeddingRuntime(): Promise<EmbeddingRuntime> {
+  if (!runtimePromise) {
+    runtimePromise = createRuntime().catch(error => {
+      // Allow a later call to try again, e.g. after the network comes back
+      runtimePromise = null;
+      throw error;
+    });
+  }
+  return runtimePromise;
+}
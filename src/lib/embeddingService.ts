@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from './db';
+import { EmbeddingProvider, EmbeddingProviderType, EmbeddingSettings } from './embeddingProvider';
+import { UniversalSentenceEncoderProvider } from './useEmbeddingProvider';
+import { OpenAIEmbeddingProvider } from './openaiEmbeddingProvider';
+import { GeminiEmbeddingProvider } from './geminiEmbeddingProvider';
+import { LocalEmbeddingProvider } from './localEmbeddingProvider';
+
+// Number of chunks embedded per request while re-embedding the library
+const REEMBED_BATCH_SIZE = 64;
+
+// Settings are read on the main thread and passed to the ingestion worker, which has no localStorage
+export function getEmbeddingSettings(): EmbeddingSettings {
+  const provider = (localStorage.getItem('embedding_provider') as EmbeddingProviderType) || 'use';
+  const apiKey = provider === 'local'
+    ? localStorage.getItem('local_embedding_api_key')
+    : localStorage.getItem(`${provider}_api_key`);
+
+  return {
+    provider,
+    model: localStorage.getItem('embedding_model') || undefined,
+    baseUrl: localStorage.getItem('embedding_base_url') || undefined,
+    apiKey: apiKey || undefined
+  };
+}
+
+export function saveEmbeddingSettings(settings: EmbeddingSettings) {
+  localStorage.setItem('embedding_provider', settings.provider);
+  const optional: Array<[string, string | undefined]> = [
+    ['embedding_model', settings.model],
+    ['embedding_base_url', settings.baseUrl]
+  ];
+  // OpenAI and Gemini embeddings reuse the API keys from the LLM settings
+  if (settings.provider === 'local') {
+    optional.push(['local_embedding_api_key', settings.apiKey]);
+  }
+
+  optional.forEach(([key, value]) => {
+    if (value) {
+      localStorage.setItem(key, value);
+    } else {
+      localStorage.removeItem(key);
+    }
+  });
+}
+
+export function createEmbeddingProvider(settings: EmbeddingSettings): EmbeddingProvider {
+  if (settings.provider === 'openai' && !settings.apiKey) {
+    throw new Error('OpenAI embeddings need an OpenAI API key. Please set it in the settings.');
+  } else if (settings.provider === 'gemini' && !settings.apiKey) {
+    throw new Error('Gemini embeddings need a Google Gemini API key. Please set it in the settings.');
+  } else if (settings.provider === 'local' && (!settings.baseUrl || !settings.model)) {
+    throw new Error('A local embedding server needs a base URL and model name. Please set them in the settings.');
+  }
+  return buildEmbeddingProvider(settings);
+}
+
+// The model id vectors will be stored under, available even before an API key is entered
+export function getEmbeddingModelId(settings: EmbeddingSettings): string {
+  return buildEmbeddingProvider(settings).modelId;
+}
+
+function buildEmbeddingProvider(settings: EmbeddingSettings): EmbeddingProvider {
+  if (settings.provider === 'openai') {
+    return new OpenAIEmbeddingProvider(settings.apiKey || '', settings.model);
+  } else if (settings.provider === 'gemini') {
+    return new GeminiEmbeddingProvider(settings.apiKey || '', settings.model);
+  } else if (settings.provider === 'local') {
+    return new LocalEmbeddingProvider(settings.baseUrl || '', settings.model || '', settings.apiKey);
+  }
+  return new UniversalSentenceEncoderProvider();
+}
+
+// Embed every chunk in the library with the given provider, replacing vectors from other models.
+// Chunks already embedded with the provider's model are skipped, so an interrupted run can be restarted.
+export async function reembedLibrary(
+  db: Database,
+  provider: EmbeddingProvider,
+  onProgress: (completed: number, total: number) => void
+): Promise<void> {
+  const upToDate = new Set(
+    (await db.embeddings.where('model').equals(provider.modelId).toArray()).map(embedding => embedding.chunkId)
+  );
+  const chunkIds = (await db.chunks.toCollection().primaryKeys()).filter(chunkId => !upToDate.has(chunkId));
+
+  onProgress(0, chunkIds.length);
+
+  for (let i = 0; i < chunkIds.length; i += REEMBED_BATCH_SIZE) {
+    const chunks = (await db.chunks.bulkGet(chunkIds.slice(i, i + REEMBED_BATCH_SIZE)))
+      .filter((chunk): chunk is NonNullable<typeof chunk> => !!chunk);
+    const vectors = await provider.embed(chunks.map(chunk => chunk.content));
+
+    await db.replaceEmbeddings(chunks.map((chunk, index) => ({
+      id: uuidv4(),
+      chunkId: chunk.id,
+      vector: Float32Array.from(vectors[index]),
+      model: provider.modelId,
+      dimension: vectors[index].length
+    })));
+
+    onProgress(Math.min(i + REEMBED_BATCH_SIZE, chunkIds.length), chunkIds.length);
+  }
+}
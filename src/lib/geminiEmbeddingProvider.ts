@@ -0,0 +1,34 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { EmbeddingProvider } from './embeddingProvider';
+
+// Gemini accepts at most 100 texts per batch request
+const BATCH_SIZE = 100;
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(apiKey: string, model = 'text-embedding-004') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.modelId = `gemini:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const genAI = new GoogleGenerativeAI(this.apiKey);
+    const model = genAI.getGenerativeModel({ model: this.model });
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const result = await model.batchEmbedContents({
+        requests: texts.slice(i, i + BATCH_SIZE).map(text => ({
+          content: { role: 'user', parts: [{ text }] }
+        }))
+      });
+      vectors.push(...result.embeddings.map(embedding => embedding.values));
+    }
+
+    return vectors;
+  }
+}
@@ -1,5 +1,31 @@
-import { LLMProvider, LLMModel, LLMProviderType } from './llmProvider';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProvider, LLMModel, LLMProviderType, LLMPrompt, GenerationOptions, toChatMessages } from './llmProvider';
+import { Content, GoogleGenerativeAI } from '@google/generative-ai';
+
+// Gemini only knows "user" and "model" turns, which must alternate and start with the user. This
+// SDK version has no system instructions, so system messages lead the first user turn instead.
+function toGeminiContents(prompt: LLMPrompt): Content[] {
+  const messages = toChatMessages(prompt);
+  const system = messages.filter(message => message.role === 'system').map(message => message.content);
+  const contents: Content[] = [];
+
+  for (const message of messages.filter(message => message.role !== 'system')) {
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    const previous = contents[contents.length - 1];
+    if (previous?.role === role) {
+      previous.parts.push({ text: message.content });
+    } else if (contents.length > 0 || role === 'user') {
+      contents.push({ role, parts: [{ text: message.content }] });
+    }
+  }
+
+  if (system.length > 0) {
+    if (contents.length === 0) {
+      contents.push({ role: 'user', parts: [] });
+    }
+    contents[0].parts.unshift(...system.map(text => ({ text })));
+  }
+  return contents;
+}
 
 export class GeminiProvider implements LLMProvider {
   private apiKey: string;
@@ -45,22 +71,64 @@ export class GeminiProvider implements LLMProvider {
     }
   }
 
-  async generateAnswer(prompt: string): Promise<string> {
+  async generateAnswer(prompt: LLMPrompt, options: GenerationOptions = {}): Promise<string> {
     try {
       // Initialize the Gemini API
       const genAI = new GoogleGenerativeAI(this.apiKey);
       
       // Use the selected model or default to gemini-1.5-flash
-      const model = genAI.getGenerativeModel({ model: this.activeModel });
+      const model = this.getModel(genAI, options);
       
-      const result = await model.generateContent(prompt);
+      const result = await model.generateContent({ contents: toGeminiContents(prompt) });
       const response = result.response;
       return response.text();
     } catch (error) {
       console.error('Error calling Gemini API:', error);
-      
-      // Fallback response if API call fails
-      return `I encountered an error while processing your query with Google Gemini. Please check your API key and try again. Error details: ${error instanceof Error ? error.message : String(error)}`;
+      throw error;
     }
   }
-}
\ No newline at end of file
+
+  async streamAnswer(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    let answer = '';
+
+    try {
+      const genAI = new GoogleGenerativeAI(this.apiKey);
+      const model = this.getModel(genAI, options);
+      const result = await model.generateContentStream({ contents: toGeminiContents(prompt) });
+
+      // The SDK cannot cancel its request, so stop reading it instead
+      for await (const chunk of result.stream) {
+        if (signal?.aborted) break;
+        const token = chunk.text();
+        if (token) {
+          answer += token;
+          onToken(token);
+        }
+      }
+
+      return answer;
+    } catch (error) {
+      if (signal?.aborted) {
+        return answer;
+      }
+      console.error('Error calling Gemini API:', error);
+      throw error;
+    }
+  }
+
+  private getModel(genAI: GoogleGenerativeAI, options: GenerationOptions) {
+    return genAI.getGenerativeModel({
+      model: this.activeModel,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+        topP: options.topP
+      }
+    });
+  }
+}
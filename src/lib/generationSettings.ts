@@ -0,0 +1,51 @@
+import { GenerationSettings } from './types';
+import { LLMProviderType } from './llmProvider';
+
+// Low temperature keeps answers close to the documents
+export const defaultGenerationSettings: Record<LLMProviderType, GenerationSettings> = {
+  openai: {
+    temperature: 0.3,
+    maxOutputTokens: 1000,
+    topP: 1,
+    systemPrompt: ''
+  },
+  gemini: {
+    temperature: 0.3,
+    maxOutputTokens: 1000,
+    topP: 0.95,
+    systemPrompt: ''
+  },
+  anthropic: {
+    temperature: 0.3,
+    maxOutputTokens: 1000,
+    topP: 1,
+    systemPrompt: ''
+  },
+  'openai-compatible': {
+    temperature: 0.3,
+    maxOutputTokens: 1000,
+    topP: 1,
+    systemPrompt: ''
+  }
+};
+
+function storageKey(provider: LLMProviderType, contextId?: string): string {
+  return `generation_settings_${provider}_${contextId || 'default'}`;
+}
+
+// Each provider has its own settings within each project context, as sensible values differ between them
+export function getGenerationSettings(provider: LLMProviderType, contextId?: string): GenerationSettings {
+  const defaults = defaultGenerationSettings[provider];
+  const saved = localStorage.getItem(storageKey(provider, contextId));
+  if (!saved) return defaults;
+
+  try {
+    return { ...defaults, ...JSON.parse(saved) };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveGenerationSettings(provider: LLMProviderType, contextId: string | undefined, settings: GenerationSettings) {
+  localStorage.setItem(storageKey(provider, contextId), JSON.stringify(settings));
+}
@@ -0,0 +1,160 @@
+import { Database, ChunkRecord } from './db';
+import { VectorSearchService } from './vectorSearchService';
+import { KeywordIndex } from './keywordIndex';
+import { RetrievalScope, RetrievalSettings } from './types';
+import { defaultRetrievalSettings } from './retrievalSettings';
+import { EmbeddingProvider } from './embeddingProvider';
+
+// Each retriever returns this many candidates per requested result before fusion
+const CANDIDATE_MULTIPLIER = 4;
+// Standard reciprocal-rank fusion constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+export interface ScoredChunk {
+  chunk: ChunkRecord;
+  score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+  // Relevance from 0 to 10 given by the LLM reranker
+  rerankScore?: number;
+  // Cosine similarity to the question itself, comparable between searches unlike the fused score
+  similarity?: number;
+}
+
+type RankedList = Array<{ chunkId: string; score: number }>;
+
+// Scale scores by the best result so cosine and BM25 values can be blended on a 0-1 range
+function normalizeScores(results: RankedList): Map<string, number> {
+  const max = Math.max(...results.map(result => result.score));
+  return new Map(results.map(result => [result.chunkId, max > 0 ? Math.max(0, result.score) / max : 0]));
+}
+
+export function fuseRankings(vectorResults: RankedList, keywordResults: RankedList, settings: RetrievalSettings): RankedList {
+  const { fusionMethod, keywordWeight } = settings;
+  const vectorWeight = 1 - keywordWeight;
+  const fused = new Map<string, number>();
+
+  if (fusionMethod === 'rrf') {
+    vectorResults.forEach((result, index) => {
+      fused.set(result.chunkId, (fused.get(result.chunkId) || 0) + vectorWeight / (RRF_K + index + 1));
+    });
+    keywordResults.forEach((result, index) => {
+      fused.set(result.chunkId, (fused.get(result.chunkId) || 0) + keywordWeight / (RRF_K + index + 1));
+    });
+  } else {
+    const vectorScores = normalizeScores(vectorResults);
+    const keywordScores = normalizeScores(keywordResults);
+    new Set([...vectorScores.keys(), ...keywordScores.keys()]).forEach(chunkId => {
+      fused.set(chunkId, vectorWeight * (vectorScores.get(chunkId) || 0) + keywordWeight * (keywordScores.get(chunkId) || 0));
+    });
+  }
+
+  return Array.from(fused, ([chunkId, score]) => ({ chunkId, score })).sort((a, b) => b.score - a.score);
+}
+
+// Reciprocal rank fusion of the results for each rewording of a question, weighted equally
+export function combineRankings(rankings: RankedList[]): RankedList {
+  const combined = new Map<string, number>();
+  rankings.forEach(results => results.forEach((result, index) => {
+    combined.set(result.chunkId, (combined.get(result.chunkId) || 0) + 1 / (RRF_K + index + 1));
+  }));
+  return Array.from(combined, ([chunkId, score]) => ({ chunkId, score })).sort((a, b) => b.score - a.score);
+}
+
+// Combines semantic (Universal Sentence Encoder) and BM25 keyword retrieval. Keyword matching
+// finds exact identifiers such as policy or NI numbers that embeddings tend to miss.
+export class HybridSearchService {
+  private db: Database;
+  private vectorSearchService: VectorSearchService;
+  private keywordIndex: KeywordIndex;
+
+  constructor(db: Database, embeddingProvider?: EmbeddingProvider) {
+    this.db = db;
+    this.vectorSearchService = new VectorSearchService(db, embeddingProvider);
+    this.keywordIndex = new KeywordIndex(db);
+  }
+
+  async search(
+    query: string,
+    limit = 5,
+    scope: RetrievalScope = { mode: 'library' },
+    settings: RetrievalSettings = defaultRetrievalSettings
+  ): Promise<ScoredChunk[]> {
+    return this.searchAll([query], [], limit, scope, settings);
+  }
+
+  // Retrieve for several phrasings of the same question and fuse the rankings. The first query is
+  // the question as asked. Hypothetical answers (HyDE) are only matched semantically, as their
+  // exact wording is invented.
+  async searchAll(
+    queries: string[],
+    hypotheticalAnswers: string[],
+    limit = 5,
+    scope: RetrievalScope = { mode: 'library' },
+    settings: RetrievalSettings = defaultRetrievalSettings
+  ): Promise<ScoredChunk[]> {
+    const documentIds = await this.db.getDocumentIdsForScope(scope);
+    if (documentIds && documentIds.length === 0) {
+      return [];
+    }
+    const chunkIds = await this.db.getChunkIdsForFilters(documentIds, scope.filters);
+    if (chunkIds && chunkIds.length === 0) {
+      return [];
+    }
+
+    const candidates = limit * CANDIDATE_MULTIPLIER;
+    const rankings: RankedList[] = [];
+    // Best vector and keyword score of each chunk over all queries, for display
+    const vectorScores = new Map<string, number>();
+    const keywordScores = new Map<string, number>();
+    const recordScores = (scores: Map<string, number>, results: RankedList) => results.forEach(result => {
+      scores.set(result.chunkId, Math.max(scores.get(result.chunkId) ?? -Infinity, result.score));
+    });
+
+    // One query at a time so the in-browser embedding model is not asked to run several batches at once
+    for (const query of queries) {
+      const [vectorResults, keywordResults] = await Promise.all([
+        settings.keywordWeight < 1 ? this.vectorSearchService.rankChunks(query, candidates, documentIds, chunkIds) : [],
+        settings.keywordWeight > 0 ? this.keywordIndex.search(query, candidates, documentIds, chunkIds) : []
+      ]);
+      rankings.push(fuseRankings(vectorResults, keywordResults, settings));
+      recordScores(vectorScores, vectorResults);
+      recordScores(keywordScores, keywordResults);
+    }
+    for (const answer of settings.keywordWeight < 1 ? hypotheticalAnswers : []) {
+      const vectorResults = await this.vectorSearchService.rankChunks(answer, candidates, documentIds, chunkIds);
+      rankings.push(vectorResults);
+      recordScores(vectorScores, vectorResults);
+    }
+
+    const combined = rankings.length === 1 ? rankings[0] : combineRankings(rankings);
+    const fused = settings.useMmr
+      ? await this.vectorSearchService.selectDiverse(combined, limit, settings.mmrLambda)
+      : combined.slice(0, limit);
+    const chunks = await this.db.chunks.bulkGet(fused.map(result => result.chunkId));
+    const similarities = await this.getSimilarities(queries[0], fused.map(result => result.chunkId));
+
+    return fused.flatMap((result, index) => {
+      const chunk = chunks[index];
+      return chunk
+        ? [{
+          chunk,
+          score: result.score,
+          vectorScore: vectorScores.get(result.chunkId),
+          keywordScore: keywordScores.get(result.chunkId),
+          similarity: similarities.get(result.chunkId)
+        }]
+        : [];
+    });
+  }
+
+  private async getSimilarities(query: string, chunkIds: string[]): Promise<Map<string, number>> {
+    try {
+      return await this.vectorSearchService.scoreChunks(query, chunkIds);
+    } catch (error) {
+      // Keyword-only search still works when the embedding model is unavailable
+      console.warn('Could not score results against the question:', error);
+      return new Map();
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { Database } from './db';
+import { DocumentProcessor, DuplicateDocumentError } from './documentProcessor';
+import { createEmbeddingProvider } from './embeddingService';
+import type { IngestionWorkerRequest, IngestionWorkerResponse } from './ingestionQueue';
+
+// Document ingestion runs here so PDF parsing, OCR and embedding never block the UI.
+// The worker only reports back; IngestionQueue owns the job records.
+const db = new Database();
+
+const respond = (response: IngestionWorkerResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<IngestionWorkerRequest>) => {
+  const { jobId, embeddingSettings } = event.data;
+  const job = await db.jobs.get(jobId);
+
+  if (!job?.file) {
+    respond({ type: 'error', jobId, error: 'The file for this job is no longer available' });
+    return;
+  }
+
+  try {
+    const documentProcessor = new DocumentProcessor(db, status => {
+      respond({ type: 'progress', jobId, progress: status.progress, message: status.message });
+    }, {}, createEmbeddingProvider(embeddingSettings));
+
+    const file = new File([job.file], job.fileName, { lastModified: job.lastModified });
+    // Tag stored documents with the job so a cancelled or interrupted job can be cleaned up
+    const documentId = await documentProcessor.processFile(
+      file,
+      { ...job.metadata, ingestionJobId: jobId },
+      { versionOf: job.versionOf }
+    );
+    respond({ type: 'done', jobId, documentId });
+  } catch (error) {
+    respond({
+      type: 'error',
+      jobId,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      duplicateOf: error instanceof DuplicateDocumentError ? error.existingDocument.name : undefined
+    });
+  }
+};
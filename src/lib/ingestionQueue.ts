@@ -0,0 +1,304 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database, IngestionJobRecord } from './db';
+import { EmbeddingSettings } from './embeddingProvider';
+import { getEmbeddingSettings } from './embeddingService';
+
+export type IngestionWorkerRequest = { type: 'process'; jobId: string; embeddingSettings: EmbeddingSettings };
+
+export type IngestionWorkerResponse =
+  | { type: 'progress'; jobId: string; progress: number; message: string }
+  | { type: 'done'; jobId: string; documentId: string }
+  | { type: 'error'; jobId: string; error: string; duplicateOf?: string };
+
+export interface QueueEntry {
+  file: File;
+  relativePath: string;
+  metadata: Record<string, unknown>;
+  versionOf?: string;
+}
+
+export interface BatchSummary {
+  batchId: string;
+  createdAt: string;
+  progress: number;
+  total: number;
+  finished: number;
+  activeJob?: IngestionJobRecord;
+}
+
+export interface QueueSummary {
+  isProcessing: boolean;
+  // Overall progress of every batch that still has unfinished jobs
+  progress: number;
+  total: number;
+  finished: number;
+  activeJob?: IngestionJobRecord;
+  // Each batch that still has unfinished jobs, oldest first
+  batches: BatchSummary[];
+}
+
+const UNFINISHED_STATUSES = ['queued', 'processing'];
+
+// Held by the tab running a job for as long as it runs; the browser releases it if the tab closes
+function jobLockName(jobId: string): string {
+  return `ingestion-job-${jobId}`;
+}
+
+// Jobs still being run by this or another open tab
+async function getRunningJobLocks(): Promise<Set<string>> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return new Set();
+  const { held = [], pending = [] } = await navigator.locks.query();
+  return new Set([...held, ...pending].map(lock => lock.name || ''));
+}
+
+export function isJobFinished(job: IngestionJobRecord): boolean {
+  return !UNFINISHED_STATUSES.includes(job.status);
+}
+
+export function sortJobs(jobs: IngestionJobRecord[]): IngestionJobRecord[] {
+  return [...jobs].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.position - b.position);
+}
+
+function summarizeProgress(jobs: IngestionJobRecord[]) {
+  const progress = jobs.reduce((sum, job) => sum + (isJobFinished(job) ? 100 : job.progress), 0);
+  return {
+    progress: jobs.length > 0 ? Math.round(progress / jobs.length) : 100,
+    total: jobs.length,
+    finished: jobs.filter(isJobFinished).length,
+    activeJob: jobs.find(job => job.status === 'processing')
+  };
+}
+
+export function summarizeJobs(jobs: IngestionJobRecord[]): QueueSummary {
+  const activeBatchIds = new Set(jobs.filter(job => !isJobFinished(job)).map(job => job.batchId));
+  const batchJobs = sortJobs(jobs.filter(job => activeBatchIds.has(job.batchId)));
+  const batchIds = Array.from(new Set(batchJobs.map(job => job.batchId)));
+
+  return {
+    isProcessing: batchJobs.length > 0,
+    ...summarizeProgress(batchJobs),
+    batches: batchIds.map(batchId => {
+      const jobsInBatch = batchJobs.filter(job => job.batchId === batchId);
+      return { batchId, createdAt: jobsInBatch[0].createdAt, ...summarizeProgress(jobsInBatch) };
+    })
+  };
+}
+
+// Runs ingestion jobs one at a time in a Web Worker. Job state lives in the jobs table so the
+// UI can follow progress with live queries and interrupted jobs can resume after a reload.
+export class IngestionQueue {
+  private db: Database;
+  private worker: Worker | null = null;
+  private activeJobId: string | null = null;
+  private releaseJobLock: (() => void) | null = null;
+  private isStarting = false;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async enqueue(entries: QueueEntry[]): Promise<string> {
+    const batchId = uuidv4();
+    const now = new Date().toISOString();
+
+    await this.db.jobs.bulkAdd(entries.map((entry, position) => ({
+      id: uuidv4(),
+      batchId,
+      position,
+      fileName: entry.file.name,
+      relativePath: entry.relativePath,
+      file: entry.file,
+      lastModified: entry.file.lastModified,
+      metadata: entry.metadata,
+      versionOf: entry.versionOf,
+      status: 'queued',
+      progress: 0,
+      message: 'Waiting to be processed',
+      createdAt: now,
+      updatedAt: now
+    })));
+
+    this.processNext();
+    return batchId;
+  }
+
+  // Jobs that were running when the page was closed start again from the beginning. Jobs another
+  // open tab is still running are left to that tab.
+  async resume() {
+    const runningLocks = await getRunningJobLocks();
+    const interrupted = await this.db.jobs
+      .where('status')
+      .equals('processing')
+      .filter(job => job.id !== this.activeJobId && !runningLocks.has(jobLockName(job.id)))
+      .toArray();
+
+    for (const job of interrupted) {
+      await this.db.removeDocumentsForJob(job.id);
+      await this.updateJob(job.id, { status: 'queued', progress: 0, message: 'Resuming after reload' });
+    }
+
+    this.processNext();
+  }
+
+  async cancel(jobId: string) {
+    const job = await this.db.jobs.get(jobId);
+    if (!job || isJobFinished(job)) return;
+
+    if (jobId === this.activeJobId) {
+      // Terminating the worker is the only way to interrupt PDF parsing, OCR or embedding part way through
+      this.stopWorker();
+      await this.db.removeDocumentsForJob(jobId);
+    }
+
+    await this.updateJob(jobId, { status: 'cancelled', message: 'Cancelled' });
+    this.processNext();
+  }
+
+  async cancelBatch(batchId: string) {
+    const jobs = await this.db.jobs.where({ batchId }).toArray();
+    for (const job of sortJobs(jobs).reverse()) {
+      await this.cancel(job.id);
+    }
+  }
+
+  async retry(jobId: string) {
+    const job = await this.db.jobs.get(jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+    if (!job.file) {
+      await this.updateJob(jobId, { error: 'The original file is no longer available, please upload it again' });
+      return;
+    }
+
+    await this.updateJob(jobId, { status: 'queued', progress: 0, message: 'Waiting to be processed', error: undefined });
+    this.processNext();
+  }
+
+  // Remove finished jobs from the queue list
+  async clearFinished() {
+    const finishedIds = await this.db.jobs.filter(isJobFinished).primaryKeys();
+    await this.db.jobs.bulkDelete(finishedIds);
+  }
+
+  private async processNext() {
+    if (this.activeJobId || this.isStarting) return;
+    this.isStarting = true;
+
+    let job: IngestionJobRecord | undefined;
+    let failed = false;
+    try {
+      job = await this.claimNextJob();
+      if (!job) return;
+
+      const request: IngestionWorkerRequest = { type: 'process', jobId: job.id, embeddingSettings: getEmbeddingSettings() };
+      this.getWorker().postMessage(request);
+      // Only a job the worker has received is active, so one that could not be sent is never left processing
+      this.activeJobId = job.id;
+      this.holdJobLock(job.id);
+    } catch (error) {
+      // Callers don't wait for this, so errors end here rather than as unhandled rejections
+      console.error('Error starting ingestion job:', error);
+      failed = !!job;
+      if (job) {
+        await this.updateJob(job.id, {
+          status: 'failed',
+          message: 'Failed',
+          error: `Could not start processing: ${error instanceof Error ? error.message : String(error)}`
+        }).catch(updateError => console.error('Error updating ingestion job:', updateError));
+      }
+    } finally {
+      this.isStarting = false;
+    }
+
+    // Move on to the rest of the queue
+    if (failed) {
+      this.processNext();
+    }
+  }
+
+  // Every open tab runs a queue over the same table. Read-write transactions on a table never
+  // overlap, even across tabs, so only one of them can move a given job from queued to processing.
+  private async claimNextJob(): Promise<IngestionJobRecord | undefined> {
+    return this.db.transaction('rw', this.db.jobs, async () => {
+      const [job] = sortJobs(await this.db.jobs.where('status').equals('queued').toArray());
+      if (!job) return undefined;
+
+      await this.updateJob(job.id, { status: 'processing', progress: 0, message: `Processing ${job.relativePath}...` });
+      return job;
+    });
+  }
+
+  private holdJobLock(jobId: string) {
+    if (typeof navigator === 'undefined' || !navigator.locks) return;
+    // Created up front so a job that ends before the lock is granted still releases it
+    const released = new Promise<void>(resolve => {
+      this.releaseJobLock = resolve;
+    });
+    navigator.locks.request(jobLockName(jobId), () => released);
+  }
+
+  private finishActiveJob() {
+    this.releaseJobLock?.();
+    this.releaseJobLock = null;
+    this.activeJobId = null;
+  }
+
+  private async handleResponse(response: IngestionWorkerResponse) {
+    // Messages from a job that has since been cancelled are ignored
+    if (response.jobId !== this.activeJobId) return;
+
+    switch (response.type) {
+      case 'progress':
+        await this.updateJob(response.jobId, { progress: response.progress, message: response.message });
+        return;
+      case 'done':
+        // The file is no longer needed once its documents are stored
+        await this.updateJob(response.jobId, {
+          status: 'completed',
+          progress: 100,
+          message: 'Completed',
+          documentId: response.documentId,
+          file: undefined
+        });
+        break;
+      case 'error':
+        await this.db.removeDocumentsForJob(response.jobId);
+        await this.updateJob(response.jobId, response.duplicateOf
+          ? { status: 'duplicate', progress: 100, message: `Identical to ${response.duplicateOf}`, file: undefined }
+          : { status: 'failed', message: 'Failed', error: response.error });
+        break;
+    }
+
+    this.finishActiveJob();
+    this.processNext();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./ingestion.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<IngestionWorkerResponse>) => {
+        this.handleResponse(event.data);
+      };
+      this.worker.onerror = (event) => {
+        // An uncaught error leaves the worker in an unknown state, so start a fresh one for the next job
+        const jobId = this.activeJobId;
+        this.worker?.terminate();
+        this.worker = null;
+        if (jobId) {
+          this.handleResponse({ type: 'error', jobId, error: event.message || 'The ingestion worker stopped unexpectedly' });
+        }
+      };
+    }
+    return this.worker;
+  }
+
+  private stopWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.finishActiveJob();
+  }
+
+  private async updateJob(jobId: string, changes: Partial<IngestionJobRecord>) {
+    await this.db.jobs.update(jobId, { ...changes, updatedAt: new Date().toISOString() });
+  }
+}
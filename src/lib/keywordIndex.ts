@@ -0,0 +1,103 @@
+import type { ChunkRecord, Database, PostingRecord, ChunkLengthRecord } from './db';
+
+// BM25 parameters: k1 controls term frequency saturation, b controls length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'what', 'when', 'which', 'who'
+]);
+
+// Lowercased word tokens. Identifiers written with separators, such as "POL-123/45" or
+// "AB 12 34 56 C", also produce a joined token so they match however they were typed.
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const normalized = text.toLowerCase();
+
+  for (const word of normalized.split(/\s+/)) {
+    const parts = word.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    tokens.push(...parts.filter(part => !STOP_WORDS.has(part)));
+    if (parts.length > 1 && parts.some(part => /\d/.test(part))) {
+      tokens.push(parts.join(''));
+    }
+  }
+
+  // National Insurance numbers are often spaced out as "AB 12 34 56 C"
+  for (const match of normalized.matchAll(/\b([a-z]{2})\s?(\d{2})\s?(\d{2})\s?(\d{2})\s?([a-d])\b/g)) {
+    if (/\s/.test(match[0])) {
+      tokens.push(match.slice(1).join(''));
+    }
+  }
+
+  return tokens;
+}
+
+// Postings and length records for newly stored chunks
+export function buildKeywordEntries(chunks: ChunkRecord[]): { postings: PostingRecord[]; lengths: ChunkLengthRecord[] } {
+  const postings: PostingRecord[] = [];
+  const lengths: ChunkLengthRecord[] = [];
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(chunk.content);
+    const frequencies = new Map<string, number>();
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+
+    frequencies.forEach((frequency, term) => {
+      postings.push({ term, chunkId: chunk.id, documentId: chunk.documentId, frequency });
+    });
+    lengths.push({ chunkId: chunk.id, documentId: chunk.documentId, length: tokens.length });
+  }
+
+  return { postings, lengths };
+}
+
+export class KeywordIndex {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // Rank chunks against the query with BM25. Collection statistics cover the whole library so
+  // scores stay comparable between scopes; documentIds and chunkIds only limit which chunks are returned.
+  async search(
+    query: string,
+    limit: number,
+    documentIds: string[] | null,
+    chunkIds: string[] | null = null
+  ): Promise<Array<{ chunkId: string; score: number }>> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const lengths = await this.db.chunkLengths.toArray();
+    if (lengths.length === 0) return [];
+
+    const chunkLengths = new Map(lengths.map(record => [record.chunkId, record.length]));
+    const averageLength = lengths.reduce((sum, record) => sum + record.length, 0) / lengths.length;
+    const inScope = documentIds ? new Set(documentIds) : null;
+    const chunksInScope = chunkIds ? new Set(chunkIds) : null;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const postings = await this.db.postings.where('term').equals(term).toArray();
+      if (postings.length === 0) continue;
+
+      const idf = Math.log(1 + (lengths.length - postings.length + 0.5) / (postings.length + 0.5));
+
+      for (const posting of postings) {
+        if (inScope && !inScope.has(posting.documentId)) continue;
+        if (chunksInScope && !chunksInScope.has(posting.chunkId)) continue;
+
+        const length = chunkLengths.get(posting.chunkId) || averageLength;
+        const termScore = idf * (posting.frequency * (BM25_K1 + 1)) /
+          (posting.frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        scores.set(posting.chunkId, (scores.get(posting.chunkId) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores, ([chunkId, score]) => ({ chunkId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
@@ -1,12 +1,93 @@
+import type { GenerationSettings } from './types';
+
 export interface LLMModel {
   id: string;
   name: string;
   provider: LLMProviderType;
 }
 
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A plain string is sent as a single user message
+export type LLMPrompt = string | ChatMessage[];
+
+// Sampling settings for one call; the provider's defaults are used for any left out
+export type GenerationOptions = Partial<Pick<GenerationSettings, 'temperature' | 'maxOutputTokens' | 'topP'>>;
+
 export interface LLMProvider {
   fetchModels(): Promise<LLMModel[]>;
-  generateAnswer(prompt: string): Promise<string>;
+  // Rejects if the request fails, so an error is never mistaken for an answer
+  generateAnswer(prompt: LLMPrompt, options?: GenerationOptions): Promise<string>;
+  // Calls onToken with each piece of the answer as it arrives and resolves with the full text.
+  // Aborting the signal stops the request and resolves with what had arrived so far.
+  streamAnswer(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    options?: GenerationOptions
+  ): Promise<string>;
 }
 
-export type LLMProviderType = 'openai' | 'gemini';
\ No newline at end of file
+export function toChatMessages(prompt: LLMPrompt): ChatMessage[] {
+  return typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+}
+
+// Calls onEvent with the JSON of each "data:" line of a server-sent event stream, including a last
+// line the server did not end with a newline. Unreadable lines are skipped so one bad event does
+// not lose the rest of the answer; the "[DONE]" marker that ends OpenAI streams is skipped too.
+export async function readEventStream<T>(body: ReadableStream<Uint8Array>, onEvent: (event: T) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+
+    let event: T;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      console.warn('Skipping unreadable event in the answer stream:', data);
+      return;
+    }
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    // The last line may be incomplete, keep it for the next read
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffer + decoder.decode());
+}
+
+// Providers are looked up in the registry, see llmProviderRegistry.ts
+export type LLMProviderType = 'openai' | 'gemini' | 'anthropic' | 'openai-compatible';
+
+// Approximate context window in tokens by model family; the first matching pattern wins
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-4o|gpt-4-turbo|gpt-4\.1|^o\d/, 128000],
+  [/gpt-4-32k/, 32768],
+  [/gpt-4/, 8192],
+  [/gpt-3\.5/, 16385],
+  [/gemini-(1\.5|2)/, 1000000],
+  [/gemini/, 30720],
+  [/claude/, 200000]
+];
+// Assumed for models not listed above, including most models on self-hosted servers
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export function getContextWindow(modelId: string | null): number {
+  const match = modelId ? CONTEXT_WINDOWS.find(([pattern]) => pattern.test(modelId)) : undefined;
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
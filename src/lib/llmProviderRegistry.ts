@@ -0,0 +1,100 @@
+import { LLMProvider, LLMProviderType } from './llmProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { GeminiProvider } from './geminiProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider';
+
+export interface LLMProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string | null;
+}
+
+export interface LLMProviderDefinition {
+  type: LLMProviderType;
+  name: string;
+  // Whether the settings panel asks for an API key, and whether one must be entered
+  apiKey: 'required' | 'optional';
+  apiKeyPlaceholder?: string;
+  apiKeyHelpUrl?: string;
+  // Servers run by the organisation itself need their address
+  needsBaseUrl: boolean;
+  defaultBaseUrl?: string;
+  // Documents are sent to a model running on the organisation's own hardware
+  onPrem: boolean;
+  create(config: LLMProviderConfig): LLMProvider;
+}
+
+const registry = new Map<LLMProviderType, LLMProviderDefinition>();
+
+export function registerLLMProvider(definition: LLMProviderDefinition) {
+  registry.set(definition.type, definition);
+}
+
+// In the order they were registered, which is the order shown in the settings
+export function getLLMProviders(): LLMProviderDefinition[] {
+  return Array.from(registry.values());
+}
+
+// Unknown types, e.g. saved by a later version, fall back to the first provider
+export function getLLMProviderDefinition(type: string | null): LLMProviderDefinition {
+  return registry.get(type as LLMProviderType) || getLLMProviders()[0];
+}
+
+export function getLLMProviderConfig(type: LLMProviderType): LLMProviderConfig {
+  return {
+    apiKey: localStorage.getItem(`${type}_api_key`) || '',
+    baseUrl: localStorage.getItem(`${type}_base_url`) || getLLMProviderDefinition(type).defaultBaseUrl || '',
+    model: localStorage.getItem('active_llm_model')
+  };
+}
+
+export function isLLMProviderConfigured(type: LLMProviderType, config = getLLMProviderConfig(type)): boolean {
+  const definition = getLLMProviderDefinition(type);
+  return (definition.apiKey === 'optional' || !!config.apiKey.trim()) &&
+    (!definition.needsBaseUrl || !!config.baseUrl.trim());
+}
+
+registerLLMProvider({
+  type: 'openai',
+  name: 'OpenAI',
+  apiKey: 'required',
+  apiKeyPlaceholder: 'sk-...',
+  apiKeyHelpUrl: 'https://platform.openai.com/api-keys',
+  needsBaseUrl: false,
+  onPrem: false,
+  create: ({ apiKey, model }) => new OpenAIProvider(apiKey, model || 'gpt-4o')
+});
+
+registerLLMProvider({
+  type: 'gemini',
+  name: 'Google Gemini',
+  apiKey: 'required',
+  apiKeyPlaceholder: 'AI...',
+  apiKeyHelpUrl: 'https://ai.google.dev/',
+  needsBaseUrl: false,
+  onPrem: false,
+  create: ({ apiKey, model }) => new GeminiProvider(apiKey, model || 'gemini-1.5-flash')
+});
+
+registerLLMProvider({
+  type: 'anthropic',
+  name: 'Anthropic',
+  apiKey: 'required',
+  apiKeyPlaceholder: 'sk-ant-...',
+  apiKeyHelpUrl: 'https://console.anthropic.com/settings/keys',
+  needsBaseUrl: false,
+  onPrem: false,
+  create: ({ apiKey, model }) => new AnthropicProvider(apiKey, model || 'claude-sonnet-4-5')
+});
+
+// Ollama, LM Studio, vLLM, llama.cpp or any other server with the OpenAI chat API
+registerLLMProvider({
+  type: 'openai-compatible',
+  name: 'Self-hosted (OpenAI-compatible)',
+  apiKey: 'optional',
+  needsBaseUrl: true,
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  onPrem: true,
+  create: ({ apiKey, baseUrl, model }) => new OpenAICompatibleProvider(baseUrl, model || '', apiKey)
+});
@@ -0,0 +1,8 @@
+import { OpenAIEmbeddingProvider } from './openaiEmbeddingProvider';
+
+// Any server exposing the OpenAI /embeddings API, such as Ollama, LM Studio or llama.cpp
+export class LocalEmbeddingProvider extends OpenAIEmbeddingProvider {
+  constructor(baseUrl: string, model: string, apiKey = '') {
+    super(apiKey, model, baseUrl, 'local');
+  }
+}
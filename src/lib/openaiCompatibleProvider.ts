@@ -0,0 +1,32 @@
+import { OpenAIProvider } from './openaiProvider';
+import { LLMModel } from './llmProvider';
+
+// Any server exposing the OpenAI /chat/completions API, such as Ollama, LM Studio or vLLM. Models
+// run on the organisation's own hardware, so documents never leave its network.
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  protected displayName = 'the OpenAI-compatible server';
+
+  constructor(baseUrl: string, activeModel: string, apiKey = '') {
+    super(apiKey, activeModel, baseUrl);
+  }
+
+  // Whatever the server has installed; unlike OpenAI there is no fixed list to fall back on
+  async fetchModels(): Promise<LLMModel[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() });
+    } catch (error) {
+      console.error('Error fetching models from the OpenAI-compatible server:', error);
+      throw new Error(`Could not reach ${this.baseUrl}. Please check the server is running and allows requests from this page (CORS).`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch models from ${this.baseUrl}: ${response.statusText}`);
+    }
+
+    const data: { data: Array<{ id: string }> } = await response.json();
+    return data.data
+      .map(model => ({ id: model.id, name: model.id, provider: 'openai-compatible' as const }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
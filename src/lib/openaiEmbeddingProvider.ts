@@ -0,0 +1,46 @@
+import { EmbeddingProvider } from './embeddingProvider';
+
+// OpenAI accepts up to 2048 inputs per request; smaller batches keep request bodies reasonable
+const BATCH_SIZE = 96;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+  protected apiKey: string;
+  protected model: string;
+  protected baseUrl: string;
+
+  constructor(apiKey: string, model = 'text-embedding-3-small', baseUrl = 'https://api.openai.com/v1', idPrefix = 'openai') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.modelId = `${idPrefix}:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: texts.slice(i, i + BATCH_SIZE)
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(`Embedding API error: ${errorData?.error?.message || response.statusText}`);
+      }
+
+      const data: { data: Array<{ index: number; embedding: number[] }> } = await response.json();
+      vectors.push(...data.data.sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+
+    return vectors;
+  }
+}
@@ -1,18 +1,27 @@
-import { LLMProvider, LLMModel, LLMProviderType } from './llmProvider';
+import { LLMProvider, LLMModel, LLMProviderType, LLMPrompt, ChatMessage, GenerationOptions, readEventStream, toChatMessages } from './llmProvider';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_SYSTEM_MESSAGE = 'You are a document analysis expert assistant.';
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 1000;
 
 export class OpenAIProvider implements LLMProvider {
-  private apiKey: string;
+  protected apiKey: string;
+  protected activeModel: string;
+  protected baseUrl: string;
+  // Used in error messages
+  protected displayName = 'OpenAI';
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, activeModel: string = 'gpt-4o', baseUrl = OPENAI_BASE_URL) {
     this.apiKey = apiKey;
+    this.activeModel = activeModel;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
   }
 
   async fetchModels(): Promise<LLMModel[]> {
     try {
-      const response = await fetch('https://api.openai.com/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`
-        }
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.getHeaders()
       });
 
       if (!response.ok) {
@@ -56,40 +65,89 @@ export class OpenAIProvider implements LLMProvider {
     }
   }
 
-  async generateAnswer(prompt: string): Promise<string> {
+  async generateAnswer(prompt: LLMPrompt, options: GenerationOptions = {}): Promise<string> {
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            { role: 'system', content: 'You are a document analysis expert assistant.' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.3,
-          max_tokens: 1000
-        })
+        headers: this.getHeaders(),
+        body: JSON.stringify(this.buildRequest(prompt, options))
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenAI API error: ${errorData.error?.message || response.statusText}`);
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${this.displayName} API error: ${errorData.error?.message || response.statusText}`);
       }
 
       const data = await response.json();
       return data.choices[0].message.content;
     } catch (error) {
-      console.error('Error calling OpenAI API:', error);
+      console.error(`Error calling ${this.displayName} API:`, error);
+      throw error;
+    }
+  }
+
+  async streamAnswer(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    let answer = '';
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ ...this.buildRequest(prompt, options), stream: true }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${this.displayName} API error: ${errorData.error?.message || response.statusText}`);
+      }
 
-      // Fallback response if API call fails
-      return `I encountered an error while processing your query with OpenAI. Please check your API key and try again. Error details: ${error instanceof Error ? error.message : String(error)}`;
+      // Server-sent events: each "data:" line holds a JSON delta, and "[DONE]" ends the stream
+      await readEventStream<{ choices?: Array<{ delta?: { content?: string } }> }>(response.body, event => {
+        const token = event.choices?.[0]?.delta?.content;
+        if (token) {
+          answer += token;
+          onToken(token);
+        }
+      });
+
+      return answer;
+    } catch (error) {
+      if (signal?.aborted) {
+        return answer;
+      }
+      console.error(`Error calling ${this.displayName} API:`, error);
+      throw error;
     }
   }
 
+  // Self-hosted servers often need no API key
+  protected getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+    };
+  }
+
+  private buildRequest(prompt: LLMPrompt, options: GenerationOptions) {
+    // Prompts without their own system message get the default one
+    const messages: ChatMessage[] = toChatMessages(prompt);
+    return {
+      model: this.activeModel,
+      messages: messages.some(message => message.role === 'system')
+        ? messages
+        : [{ role: 'system', content: DEFAULT_SYSTEM_MESSAGE }, ...messages],
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+      top_p: options.topP
+    };
+  }
+
   private formatModelName(modelId: string): string {
     // Convert model IDs to more readable names
     const nameMap: Record<string, string> = {
@@ -0,0 +1,130 @@
+import * as pdfjs from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import { BoundingBox } from './types';
+
+// A run of page text with its location on the page
+export interface TextRegion extends BoundingBox {
+  // Character offsets within the page text
+  start: number;
+  end: number;
+}
+
+export interface PageLayout {
+  text: string;
+  regions: TextRegion[];
+  width: number;
+  height: number;
+}
+
+// Join pdf.js text items into page text, recording where each item sits on the page
+export function buildPageLayout(
+  items: Array<TextItem | TextMarkedContent>,
+  viewport: pdfjs.PageViewport
+): PageLayout {
+  let text = '';
+  const regions: TextRegion[] = [];
+
+  for (const item of items) {
+    if (!('str' in item)) continue;
+
+    if (item.str) {
+      // Convert the text matrix into top-left based viewport coordinates
+      const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+      const fontHeight = Math.hypot(tx[2], tx[3]);
+      const height = item.height ? item.height * viewport.scale : fontHeight;
+
+      const start = text.length;
+      text += item.str;
+      regions.push({
+        start,
+        end: text.length,
+        x: tx[4],
+        y: tx[5] - fontHeight,
+        width: item.width * viewport.scale,
+        height
+      });
+    }
+
+    // Keep the line breaks pdf.js reports so the chunker can find paragraphs
+    if (item.hasEOL) {
+      text = text.replace(/[ \t]+$/, '') + '\n';
+    } else if (text && !/\s$/.test(text)) {
+      text += ' ';
+    }
+  }
+
+  return { text: text.trimEnd(), regions, width: viewport.width, height: viewport.height };
+}
+
+// Bounding boxes for the text between `start` and `end`, one per line
+export function getRegionBoxes(regions: TextRegion[], start: number, end: number): BoundingBox[] {
+  const lines: BoundingBox[] = [];
+
+  for (const region of regions) {
+    if (region.end <= start || region.start >= end) continue;
+
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - region.y) < Math.max(line.height, region.height) / 2) {
+      const right = Math.max(line.x + line.width, region.x + region.width);
+      const bottom = Math.max(line.y + line.height, region.y + region.height);
+      line.x = Math.min(line.x, region.x);
+      line.y = Math.min(line.y, region.y);
+      line.width = right - line.x;
+      line.height = bottom - line.y;
+    } else {
+      lines.push({ x: region.x, y: region.y, width: region.width, height: region.height });
+    }
+  }
+
+  return lines;
+}
+
+export function unionBoxes(boxes: BoundingBox[]): BoundingBox | undefined {
+  if (boxes.length === 0) return undefined;
+
+  const left = Math.min(...boxes.map(box => box.x));
+  const top = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+interface OcrLine {
+  paragraph?: unknown;
+  words: Array<{ text: string; bbox: { x0: number; y0: number; x1: number; y1: number } }>;
+}
+
+// Build page text and regions from Tesseract lines. `scale` is the factor the page was rendered at.
+export function buildOcrLayout(lines: OcrLine[], scale: number, width: number, height: number): PageLayout {
+  let text = '';
+  const regions: TextRegion[] = [];
+  let previousParagraph: unknown;
+
+  for (const line of lines) {
+    const words = line.words.filter(word => word.text.trim());
+    if (words.length === 0) continue;
+
+    // Separate Tesseract paragraphs with a blank line so the chunker can split on them
+    if (text && line.paragraph && line.paragraph !== previousParagraph) {
+      text += '\n';
+    }
+    previousParagraph = line.paragraph;
+
+    words.forEach((word, index) => {
+      if (index > 0) text += ' ';
+      const start = text.length;
+      text += word.text;
+      regions.push({
+        start,
+        end: text.length,
+        x: word.bbox.x0 / scale,
+        y: word.bbox.y0 / scale,
+        width: (word.bbox.x1 - word.bbox.x0) / scale,
+        height: (word.bbox.y1 - word.bbox.y0) / scale
+      });
+    });
+    text += '\n';
+  }
+
+  return { text: text.trimEnd(), regions, width, height };
+}
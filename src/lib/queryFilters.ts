@@ -0,0 +1,144 @@
+import type { ChunkRecord, DocumentRecord } from './db';
+
+export type FilterKey = 'doc' | 'tag' | 'page' | 'type' | 'after' | 'before';
+
+export interface QueryFilter {
+  key: FilterKey;
+  value: string;
+  // The filter as written in the chat box, so it can be removed again
+  raw: string;
+}
+
+// Filters written in the chat box, e.g. doc:"transfer statement.pdf" tag:2019 page:3-5 type:pdf after:2020-01-01.
+// Each kind of filter must match; several values of one kind match if any of them does.
+export interface QueryFilters {
+  documentNames: string[];
+  tags: string[];
+  types: string[];
+  pages?: { start: number; end: number };
+  // ISO dates, compared with the file's last modified date
+  after?: string;
+  before?: string;
+}
+
+const FILTER_PATTERN = /(^|\s)(doc|tag|page|type|after|before):(?:"([^"]*)"|(\S+))/gi;
+const PAGE_PATTERN = /^(\d+)(?:-(\d+))?$/;
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+function isValidFilter(key: FilterKey, value: string): boolean {
+  if (!value) return false;
+  if (key === 'page') return PAGE_PATTERN.test(value);
+  if (key === 'after' || key === 'before') return DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+  return true;
+}
+
+// Splits filters from the question. Anything that looks like a filter but has an invalid value,
+// such as page:abc, is left in the question.
+export function parseFilters(input: string): { query: string; filters: QueryFilter[] } {
+  const filters: QueryFilter[] = [];
+  const query = input.replace(FILTER_PATTERN, (match, leading: string, key: string, quoted?: string, bare?: string) => {
+    const filterKey = key.toLowerCase() as FilterKey;
+    const value = (quoted ?? bare ?? '').trim();
+    if (!isValidFilter(filterKey, value)) {
+      return match;
+    }
+    filters.push({ key: filterKey, value, raw: match.slice(leading.length) });
+    return leading;
+  });
+
+  return { query: query.replace(/\s+/g, ' ').trim(), filters };
+}
+
+export function removeFilter(input: string, filter: QueryFilter): string {
+  return input.replace(filter.raw, '').replace(/\s{2,}/g, ' ').trimStart();
+}
+
+export function buildQueryFilters(filters: QueryFilter[]): QueryFilters | undefined {
+  if (filters.length === 0) return undefined;
+
+  const valuesFor = (key: FilterKey) => filters.filter(filter => filter.key === key).map(filter => filter.value);
+  const [page] = valuesFor('page').slice(-1);
+  const pageMatch = page?.match(PAGE_PATTERN);
+  const [after] = valuesFor('after').slice(-1);
+  const [before] = valuesFor('before').slice(-1);
+
+  return {
+    documentNames: valuesFor('doc'),
+    tags: valuesFor('tag'),
+    types: valuesFor('type'),
+    pages: pageMatch
+      ? { start: Number(pageMatch[1]), end: Number(pageMatch[2] ?? pageMatch[1]) }
+      : undefined,
+    after,
+    before
+  };
+}
+
+export function hasDocumentFilters(filters?: QueryFilters): boolean {
+  return !!filters && (
+    filters.documentNames.length > 0 ||
+    filters.tags.length > 0 ||
+    filters.types.length > 0 ||
+    !!filters.after ||
+    !!filters.before
+  );
+}
+
+export function matchesDocumentFilters(document: DocumentRecord, filters?: QueryFilters): boolean {
+  if (!filters) return true;
+
+  const name = document.name.toLowerCase();
+  if (filters.documentNames.length > 0 && !filters.documentNames.some(value => name.includes(value.toLowerCase()))) {
+    return false;
+  }
+
+  const tags: string[] = (document.metadata?.tags || []).map((tag: string) => tag.toLowerCase());
+  if (filters.tags.length > 0 && !filters.tags.some(value => tags.includes(value.toLowerCase()))) {
+    return false;
+  }
+
+  // "pdf" matches both the MIME type and the file extension
+  const type = document.type.toLowerCase();
+  if (filters.types.length > 0 && !filters.types.some(value => {
+    const wanted = value.toLowerCase().replace(/^\./, '');
+    return type.includes(wanted) || name.endsWith(`.${wanted}`);
+  })) {
+    return false;
+  }
+
+  if (filters.after || filters.before) {
+    const date = Date.parse(document.metadata?.lastModified || document.uploadDate);
+    if (filters.after && !(date >= Date.parse(filters.after))) return false;
+    if (filters.before && !(date < Date.parse(filters.before))) return false;
+  }
+
+  return true;
+}
+
+export function hasChunkFilters(filters?: QueryFilters): boolean {
+  return !!filters?.pages;
+}
+
+export function matchesChunkFilters(chunk: ChunkRecord, filters?: QueryFilters): boolean {
+  if (filters?.pages) {
+    const { pageNumber } = chunk.metadata;
+    return pageNumber !== undefined && pageNumber >= filters.pages.start && pageNumber <= filters.pages.end;
+  }
+  return true;
+}
+
+// The doc: or tag: filter being typed at the caret, for autocompletion
+export function getFilterCompletion(input: string, caret: number): { key: 'doc' | 'tag'; partial: string; start: number } | null {
+  const match = input.slice(0, caret).match(/(^|\s)(doc|tag):("[^"]*|[^\s"]*)$/i);
+  if (!match || match.index === undefined) return null;
+
+  return {
+    key: match[2].toLowerCase() as 'doc' | 'tag',
+    partial: match[3].replace(/^"/, ''),
+    start: match.index + match[1].length
+  };
+}
+
+export function formatFilter(key: FilterKey, value: string): string {
+  return /\s/.test(value) ? `${key}:"${value}"` : `${key}:${value}`;
+}
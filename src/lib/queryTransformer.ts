@@ -0,0 +1,74 @@
+import { LLMProvider } from './llmProvider';
+
+const MAX_PARAPHRASES = 3;
+const MAX_SUB_QUESTIONS = 3;
+
+export interface QueryTransformation {
+  // Standalone rewordings of the question with vague references spelled out
+  paraphrases: string[];
+  // Simpler questions that together cover a compound question
+  subQuestions: string[];
+  // Invented answer passage (HyDE); it reads like the documents, so it embeds closer to them than the question does
+  hypotheticalAnswer?: string;
+}
+
+function toStringList(value: unknown, limit: number): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()).slice(0, limit)
+    : [];
+}
+
+// The reply should be a JSON object, but models sometimes wrap it in prose or code fences
+function parseTransformation(reply: string): QueryTransformation | null {
+  const match = reply.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    const hypotheticalAnswer = typeof parsed.hypotheticalAnswer === 'string' ? parsed.hypotheticalAnswer.trim() : '';
+    return {
+      paraphrases: toStringList(parsed.paraphrases, MAX_PARAPHRASES),
+      subQuestions: toStringList(parsed.subQuestions, MAX_SUB_QUESTIONS),
+      hypotheticalAnswer: hypotheticalAnswer || undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Asks the chat model for alternative search queries, so short or vague questions such as
+// "when can I get it?" still find the passages that answer them
+export class QueryTransformer {
+  private llmProvider: LLMProvider;
+
+  constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider;
+  }
+
+  async transform(query: string, contextPrompt?: string): Promise<QueryTransformation> {
+    const prompt = `
+You help search a document library. ${contextPrompt ? `The library is described as follows: ${contextPrompt}` : ''}
+
+Rewrite the question below to improve search results. Reply with only a JSON object with these fields:
+- "paraphrases": up to ${MAX_PARAPHRASES} standalone rewordings that spell out vague words such as "it" or "they"
+- "subQuestions": up to ${MAX_SUB_QUESTIONS} simpler questions if the question asks several things at once, otherwise []
+- "hypotheticalAnswer": a short passage, written as it might appear in the documents, that would answer the question. Invent plausible details if needed.
+
+QUESTION:
+${query}
+`;
+
+    try {
+      const transformation = parseTransformation(await this.llmProvider.generateAnswer(prompt));
+      if (transformation) {
+        return transformation;
+      }
+      console.warn('Could not read query transformations from the model reply');
+    } catch (error) {
+      console.error('Error transforming query:', error);
+    }
+
+    // Searching with the original question alone still works
+    return { paraphrases: [], subQuestions: [] };
+  }
+}
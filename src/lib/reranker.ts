@@ -0,0 +1,113 @@
+import { Database } from './db';
+import { LLMProvider } from './llmProvider';
+import { ScoredChunk } from './hybridSearchService';
+
+// Candidates scored per LLM call; keeps prompts short enough for any chat model
+const RERANK_BATCH_SIZE = 10;
+// Candidates are trimmed in the prompt, the start of a chunk is enough to judge relevance
+const MAX_CANDIDATE_CHARS = 1200;
+
+// Cache keys use the question as typed, ignoring case and spacing
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// The reply should be a JSON array of scores, but models sometimes wrap it in prose or code fences
+function parseScores(reply: string, count: number): number[] | null {
+  const match = reply.match(/\[[\s\S]*?\]/);
+  if (!match) return null;
+
+  try {
+    const scores = JSON.parse(match[0]);
+    if (!Array.isArray(scores) || scores.length !== count || !scores.every(score => typeof score === 'number')) {
+      return null;
+    }
+    return scores.map(score => Math.min(10, Math.max(0, score)));
+  } catch {
+    return null;
+  }
+}
+
+// Second-stage ranking: the chat model reads each candidate and rates how well it answers the
+// question. Scores are cached in IndexedDB per scorer, question and chunk, so repeated questions
+// cost no extra calls.
+export class LLMReranker {
+  private db: Database;
+  private llmProvider: LLMProvider;
+  // Identifies the provider and model doing the scoring, e.g. "openai:gpt-4o"
+  private scorer: string;
+
+  constructor(db: Database, llmProvider: LLMProvider, scorer: string) {
+    this.db = db;
+    this.llmProvider = llmProvider;
+    this.scorer = scorer;
+  }
+
+  async rerank(query: string, candidates: ScoredChunk[], limit: number): Promise<ScoredChunk[]> {
+    const normalizedQuery = normalizeQuery(query);
+    const cached = await this.db.rerankScores.bulkGet(
+      candidates.map(candidate => [this.scorer, normalizedQuery, candidate.chunk.id])
+    );
+    const scores = new Map<string, number>();
+    cached.forEach(record => record && scores.set(record.chunkId, record.score));
+
+    const unscored = candidates.filter(candidate => !scores.has(candidate.chunk.id));
+    const batches: ScoredChunk[][] = [];
+    for (let i = 0; i < unscored.length; i += RERANK_BATCH_SIZE) {
+      batches.push(unscored.slice(i, i + RERANK_BATCH_SIZE));
+    }
+
+    const batchScores = await Promise.all(batches.map(batch => this.scoreBatch(query, batch)));
+    const newRecords = batches.flatMap((batch, index) => {
+      const results = batchScores[index];
+      // A failed batch is left unscored rather than cached, so it is tried again next time
+      return results
+        ? batch.map((candidate, position) => ({
+          scorer: this.scorer,
+          query: normalizedQuery,
+          chunkId: candidate.chunk.id,
+          score: results[position],
+          createdAt: new Date().toISOString()
+        }))
+        : [];
+    });
+    newRecords.forEach(record => scores.set(record.chunkId, record.score));
+    await this.db.rerankScores.bulkPut(newRecords);
+
+    // Unscored candidates keep their retrieval order after the scored ones
+    return candidates
+      .map(candidate => ({ ...candidate, rerankScore: scores.get(candidate.chunk.id) }))
+      .sort((a, b) => (b.rerankScore ?? -1) - (a.rerankScore ?? -1))
+      .slice(0, limit);
+  }
+
+  private async scoreBatch(query: string, batch: ScoredChunk[]): Promise<number[] | null> {
+    const passages = batch.map((candidate, index) =>
+      `[${index + 1}] ${candidate.chunk.content.slice(0, MAX_CANDIDATE_CHARS)}`
+    ).join('\n\n');
+
+    const prompt = `
+Rate how useful each numbered passage is for answering the question, from 0 (irrelevant) to 10 (directly answers it).
+
+QUESTION:
+${query}
+
+PASSAGES:
+${passages}
+
+Reply with only a JSON array of ${batch.length} numbers, one score per passage in order, for example [7, 0, 3].
+`;
+
+    try {
+      const reply = await this.llmProvider.generateAnswer(prompt);
+      const scores = parseScores(reply, batch.length);
+      if (!scores) {
+        console.warn('Could not read relevance scores from the reranker reply:', reply);
+      }
+      return scores;
+    } catch (error) {
+      console.error('Error reranking passages:', error);
+      return null;
+    }
+  }
+}
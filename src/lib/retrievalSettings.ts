@@ -0,0 +1,31 @@
+import { RetrievalSettings } from './types';
+
+export const defaultRetrievalSettings: RetrievalSettings = {
+  fusionMethod: 'rrf',
+  keywordWeight: 0.5,
+  useMmr: true,
+  mmrLambda: 0.7,
+  neighborWindow: 1,
+  // Off by default as they cost extra LLM calls for every question
+  useReranker: false,
+  useQueryTransforms: false,
+  rerankCandidates: 30,
+  minSimilarity: 0.2,
+  contextTokenBudget: 6000
+};
+
+// Retrieval settings are kept per project context, e.g. legal documents may lean more on exact terms
+export function getRetrievalSettings(contextId?: string): RetrievalSettings {
+  const saved = localStorage.getItem(`retrieval_settings_${contextId || 'default'}`);
+  if (!saved) return defaultRetrievalSettings;
+
+  try {
+    return { ...defaultRetrievalSettings, ...JSON.parse(saved) };
+  } catch {
+    return defaultRetrievalSettings;
+  }
+}
+
+export function saveRetrievalSettings(contextId: string | undefined, settings: RetrievalSettings) {
+  localStorage.setItem(`retrieval_settings_${contextId || 'default'}`, JSON.stringify(settings));
+}
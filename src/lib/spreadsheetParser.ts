@@ -0,0 +1,155 @@
+import * as XLSX from 'xlsx';
+import { estimateTokens } from './chunker';
+
+export interface SheetTable {
+  sheetName: string;
+  // 1-based row number of the header row in the original sheet
+  headerRow: number;
+  headers: string[];
+  rows: Array<{ rowNumber: number; cells: string[] }>;
+}
+
+export interface SpreadsheetContent {
+  content: string;
+  sheets: Array<{
+    table: SheetTable;
+    // Offsets of the sheet name and header rows within `content`
+    headerPosition: { start: number; end: number };
+    // Offsets of each formatted row within `content`, in the same order as `table.rows`
+    rowPositions: Array<{ start: number; end: number }>;
+  }>;
+}
+
+export interface TableChunk {
+  content: string;
+  start: number;
+  end: number;
+  sheetName: string;
+  headerRow: number;
+  headers: string[];
+  rowRange: { start: number; end: number };
+}
+
+export function parseSpreadsheet(data: ArrayBuffer | string, defaultSheetName: string): SheetTable[] {
+  // CSV cells are kept as text so identifiers like "001234" keep their leading zeros
+  const workbook = typeof data === 'string'
+    ? XLSX.read(data, { type: 'string', raw: true })
+    : XLSX.read(data, { type: 'array', cellDates: true });
+  const isSingleCsvSheet = typeof data === 'string' && workbook.SheetNames.length === 1;
+
+  return workbook.SheetNames.map(sheetName => {
+    const sheet = workbook.Sheets[sheetName];
+    const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+    const grid = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+
+    // The first non-empty row is taken as the header row
+    const headerIndex = grid.findIndex(row => row.some(cell => String(cell).trim()));
+    if (headerIndex === -1) {
+      return { sheetName, headerRow: firstRow, headers: [], rows: [] };
+    }
+
+    const headers = grid[headerIndex].map((cell, index) => String(cell).trim() || `Column ${index + 1}`);
+    const rows = grid
+      .slice(headerIndex + 1)
+      .map((row, index) => ({
+        rowNumber: firstRow + headerIndex + 1 + index,
+        cells: headers.map((_, column) => String(row[column] ?? '').replace(/\s+/g, ' ').trim())
+      }))
+      .filter(row => row.cells.some(cell => cell));
+
+    return {
+      sheetName: isSingleCsvSheet ? defaultSheetName : sheetName,
+      headerRow: firstRow + headerIndex,
+      headers,
+      rows
+    };
+  }).filter(table => table.headers.length > 0);
+}
+
+function formatRow(cells: string[]): string {
+  return `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+}
+
+function formatHeader(headers: string[]): string {
+  return `${formatRow(headers)}\n| ${headers.map(() => '---').join(' | ')} |`;
+}
+
+// Render every sheet as a markdown table, recording where each row lands in the text
+export function formatSpreadsheet(tables: SheetTable[]): SpreadsheetContent {
+  let content = '';
+  const sheets: SpreadsheetContent['sheets'] = [];
+
+  for (const table of tables) {
+    const headerStart = content.length;
+    content += `Sheet: ${table.sheetName}\n${formatHeader(table.headers)}`;
+    const headerPosition = { start: headerStart, end: content.length };
+    content += '\n';
+
+    const rowPositions = table.rows.map(row => {
+      const start = content.length;
+      content += formatRow(row.cells);
+      const end = content.length;
+      content += '\n';
+      return { start, end };
+    });
+
+    content += '\n';
+    sheets.push({ table, headerPosition, rowPositions });
+  }
+
+  return { content, sheets };
+}
+
+// Group rows into chunks, repeating the sheet name and column headers in every chunk
+export function chunkSpreadsheet(spreadsheet: SpreadsheetContent, targetTokens: number): TableChunk[] {
+  const chunks: TableChunk[] = [];
+
+  for (const { table, headerPosition, rowPositions } of spreadsheet.sheets) {
+    const header = formatHeader(table.headers);
+
+    // A sheet with headers but no data is still findable by its name and columns
+    if (table.rows.length === 0) {
+      chunks.push({
+        content: `Sheet: ${table.sheetName} (column headers only, no data rows)\n${header}`,
+        start: headerPosition.start,
+        end: headerPosition.end,
+        sheetName: table.sheetName,
+        headerRow: table.headerRow,
+        headers: table.headers,
+        rowRange: { start: table.headerRow, end: table.headerRow }
+      });
+      continue;
+    }
+
+    let first = 0;
+
+    while (first < table.rows.length) {
+      let last = first;
+      let tokens = estimateTokens(header) + estimateTokens(formatRow(table.rows[first].cells));
+
+      while (last + 1 < table.rows.length) {
+        const nextTokens = estimateTokens(formatRow(table.rows[last + 1].cells));
+        if (tokens + nextTokens > targetTokens) break;
+        last++;
+        tokens += nextTokens;
+      }
+
+      const rowRange = { start: table.rows[first].rowNumber, end: table.rows[last].rowNumber };
+      const rows = table.rows.slice(first, last + 1).map(row => formatRow(row.cells)).join('\n');
+
+      chunks.push({
+        content: `Sheet: ${table.sheetName} (rows ${rowRange.start}-${rowRange.end})\n${header}\n${rows}`,
+        start: rowPositions[first].start,
+        end: rowPositions[last].end,
+        sheetName: table.sheetName,
+        headerRow: table.headerRow,
+        headers: table.headers,
+        rowRange
+      });
+
+      first = last + 1;
+    }
+  }
+
+  return chunks;
+}
@@ -1,3 +1,5 @@
+import type { QueryFilters } from './queryFilters';
+
 export interface ProjectContext {
   id: string;
   name: string;
@@ -12,4 +14,59 @@ export interface DocumentMetadata {
   context?: string;
   tags?: string[];
   [key: string]: any;
-}
\ No newline at end of file
+}
+
+export type RetrievalScopeMode = 'context' | 'tags' | 'library';
+
+export interface RetrievalScope {
+  mode: RetrievalScopeMode;
+  contextId?: string;
+  tags?: string[];
+  // Inline filters typed in the chat box, applied within the scope
+  filters?: QueryFilters;
+}
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface RetrievalSettings {
+  // How keyword (BM25) and vector rankings are combined
+  fusionMethod: FusionMethod;
+  // Share of the combined score given to keyword matches, from 0 (vector only) to 1 (keyword only)
+  keywordWeight: number;
+  // Maximal Marginal Relevance: skip results that mostly repeat ones already chosen
+  useMmr: boolean;
+  // MMR trade-off, from 0 (most diverse) to 1 (most relevant)
+  mmrLambda: number;
+  // Adjacent chunks on each side of a result added to the answer context, 0 to disable
+  neighborWindow: number;
+  // Have the chat model rescore a larger candidate set and keep the best results
+  useReranker: boolean;
+  // Candidates retrieved for the reranker to score
+  rerankCandidates: number;
+  // Also search with model-written paraphrases, sub-questions and a hypothetical answer (HyDE)
+  useQueryTransforms: boolean;
+  // Results less similar than this to the question are dropped; if none remain the answer says so
+  minSimilarity: number;
+  // Most tokens of document text sent with each question; lowered further for models with small context windows
+  contextTokenBudget: number;
+}
+
+// How the chat model writes answers, kept per provider and project context
+export interface GenerationSettings {
+  // 0 gives the most predictable answers; higher values vary the wording more
+  temperature: number;
+  // Longest answer the model may write
+  maxOutputTokens: number;
+  // Nucleus sampling: only the most likely words making up this share of probability are considered
+  topP: number;
+  // Replaces the context's built-in instructions when not empty
+  systemPrompt: string;
+}
+
+// Rectangle in PDF points, measured from the top-left corner of the page
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
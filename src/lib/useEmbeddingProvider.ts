@@ -0,0 +1,12 @@
+import { EmbeddingProvider } from './embeddingProvider';
+import { getEmbeddingRuntime } from './embeddingRuntime';
+
+// Universal Sentence Encoder running in the browser; needs no API key
+export class UniversalSentenceEncoderProvider implements EmbeddingProvider {
+  readonly modelId = 'use:universal-sentence-encoder';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const runtime = await getEmbeddingRuntime();
+    return runtime.embed(texts);
+  }
+}
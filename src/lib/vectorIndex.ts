@@ -0,0 +1,121 @@
+import type { VectorIndexRecord } from './db';
+
+// Below this many vectors an exhaustive search is fast enough and always exact
+export const MIN_INDEXED_VECTORS = 2000;
+// Centroids are retrained once a model has this many times the vectors they were trained on
+const RETRAIN_GROWTH_FACTOR = 2;
+const KMEANS_ITERATIONS = 10;
+// k-means runs on a sample so training time does not grow with the library
+const TRAINING_SAMPLES_PER_LIST = 32;
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of different dimensions (${a.length} and ${b.length})`);
+  }
+  let dotProduct = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+  return magnitudeA > 0 && magnitudeB > 0 ? dotProduct / Math.sqrt(magnitudeA * magnitudeB) : 0;
+}
+
+// Centroids are unit length, so the dot product orders lists by cosine similarity
+function centroidScore(vector: ArrayLike<number>, index: VectorIndexRecord, list: number): number {
+  const offset = list * index.dimension;
+  let score = 0;
+  for (let i = 0; i < index.dimension; i++) {
+    score += vector[i] * index.centroids[offset + i];
+  }
+  return score;
+}
+
+export function nearestList(vector: ArrayLike<number>, index: VectorIndexRecord): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let list = 0; list < index.listCount; list++) {
+    const score = centroidScore(vector, index, list);
+    if (score > bestScore) {
+      best = list;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Every list, closest centroid first
+export function rankLists(vector: ArrayLike<number>, index: VectorIndexRecord): number[] {
+  return Array.from({ length: index.listCount }, (_, list) => ({ list, score: centroidScore(vector, index, list) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.list);
+}
+
+export function needsTraining(index: VectorIndexRecord | undefined, vectorCount: number): boolean {
+  if (vectorCount < MIN_INDEXED_VECTORS) return false;
+  return !index || vectorCount >= index.trainedOn * RETRAIN_GROWTH_FACTOR;
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  const magnitude = Math.sqrt(normalized.reduce((sum, value) => sum + value * value, 0));
+  if (magnitude > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= magnitude;
+  }
+  return normalized;
+}
+
+function sample<T>(items: T[], count: number): T[] {
+  const shuffled = [...items];
+  const size = Math.min(count, shuffled.length);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(Math.random() * (shuffled.length - i));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, size);
+}
+
+// Trains an inverted file (IVF) index with spherical k-means. Each vector is later stored with
+// the id of its nearest centroid, so a search only needs to load the lists closest to the query.
+export function trainVectorIndex(model: string, vectors: Float32Array[]): VectorIndexRecord {
+  const dimension = vectors[0].length;
+  const listCount = Math.max(1, Math.round(Math.sqrt(vectors.length)));
+  const trainingSet = sample(vectors, listCount * TRAINING_SAMPLES_PER_LIST).map(normalize);
+
+  const index: VectorIndexRecord = {
+    model,
+    dimension,
+    listCount,
+    centroids: new Float32Array(listCount * dimension),
+    trainedOn: vectors.length,
+    updatedAt: new Date().toISOString()
+  };
+  // The training set is already shuffled, so its first vectors make random starting centroids
+  for (let list = 0; list < listCount; list++) {
+    index.centroids.set(trainingSet[list % trainingSet.length], list * dimension);
+  }
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = new Float32Array(listCount * dimension);
+    const counts = new Array(listCount).fill(0);
+
+    for (const vector of trainingSet) {
+      const list = nearestList(vector, index);
+      counts[list]++;
+      for (let i = 0; i < dimension; i++) {
+        sums[list * dimension + i] += vector[i];
+      }
+    }
+
+    for (let list = 0; list < listCount; list++) {
+      // An empty list keeps its previous centroid
+      if (counts[list] > 0) {
+        index.centroids.set(normalize(sums.subarray(list * dimension, (list + 1) * dimension)), list * dimension);
+      }
+    }
+  }
+
+  return index;
+}
@@ -1,62 +1,223 @@
-import * as use from '@tensorflow-models/universal-sentence-encoder';
-import * as tf from '@tensorflow/tfjs';
 import { Database, ChunkRecord, EmbeddingRecord } from './db';
+import { RetrievalScope } from './types';
+import { EmbeddingProvider } from './embeddingProvider';
+import { UniversalSentenceEncoderProvider } from './useEmbeddingProvider';
+import { cosineSimilarity, MIN_INDEXED_VECTORS, rankLists } from './vectorIndex';
+
+// Share of IVF lists scored per query; more lists means better recall but slower searches
+const PROBED_LIST_FRACTION = 0.1;
+const MIN_PROBED_LISTS = 4;
+// Candidates ranked per requested result before MMR chooses among them
+const MMR_CANDIDATE_MULTIPLIER = 4;
+// Recent query embeddings kept so ranking and scoring the same question embed it only once
+const QUERY_CACHE_SIZE = 20;
 
 export class VectorSearchService {
   private db: Database;
-  private model: use.UniversalSentenceEncoder | null = null;
+  private embeddingProvider: EmbeddingProvider;
+  private queryEmbeddings = new Map<string, number[]>();
 
-  constructor(db: Database) {
+  constructor(db: Database, embeddingProvider: EmbeddingProvider = new UniversalSentenceEncoderProvider()) {
     this.db = db;
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.embeddingProvider.embed(texts);
   }
 
-  private async ensureModelInitialized() {
-    if (!this.model) {
-      await tf.setBackend('webgl');
-      await tf.ready();
-      this.model = await use.load();
+  private async embedQuery(query: string): Promise<number[]> {
+    const cached = this.queryEmbeddings.get(query);
+    if (cached) {
+      return cached;
     }
+
+    const [queryVector] = await this.generateEmbeddings([query]);
+    this.queryEmbeddings.set(query, queryVector);
+    if (this.queryEmbeddings.size > QUERY_CACHE_SIZE) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      this.queryEmbeddings.delete(this.queryEmbeddings.keys().next().value!);
+    }
+    return queryVector;
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    await this.ensureModelInitialized();
-    const embeddings = await this.model!.embed(texts);
-    return embeddings.arraySync();
+  // Cosine similarity of the query to specific chunks, including ones found only by keyword search.
+  // Chunks without a vector from the active model are left out.
+  async scoreChunks(query: string, chunkIds: string[]): Promise<Map<string, number>> {
+    if (chunkIds.length === 0) {
+      return new Map();
+    }
+
+    const queryVector = await this.embedQuery(query);
+    const { modelId } = this.embeddingProvider;
+    const embeddings = await this.db.embeddings
+      .where('chunkId')
+      .anyOf(chunkIds)
+      .filter(embedding => embedding.model === modelId)
+      .toArray();
+    return new Map(embeddings.map(embedding => [embedding.chunkId, cosineSimilarity(queryVector, embedding.vector)]));
+  }
+
+  async searchSimilarChunks(
+    query: string,
+    limit = 5,
+    scope: RetrievalScope = { mode: 'library' },
+    mmrLambda?: number,
+    minSimilarity = 0
+  ): Promise<ChunkRecord[]> {
+    // Only rank embeddings belonging to documents inside the requested scope
+    const documentIds = await this.db.getDocumentIdsForScope(scope);
+    const chunkIds = await this.db.getChunkIdsForFilters(documentIds, scope.filters);
+    // Chunks below the minimum similarity are never returned, even if that leaves none
+    const candidates = (await this.rankChunks(query, mmrLambda === undefined ? limit : limit * MMR_CANDIDATE_MULTIPLIER, documentIds, chunkIds))
+      .filter(result => result.score >= minSimilarity);
+    const ranked = mmrLambda === undefined ? candidates : await this.selectDiverse(candidates, limit, mmrLambda);
+
+    // Get the corresponding chunks, keeping the similarity order
+    const chunks = await this.db.chunks.bulkGet(ranked.map(result => result.chunkId));
+
+    return chunks.filter((chunk): chunk is ChunkRecord => !!chunk);
   }
 
-  async searchSimilarChunks(query: string, limit = 5): Promise<ChunkRecord[]> {
-    await this.ensureModelInitialized();
+  // Maximal Marginal Relevance: repeatedly pick the candidate with the best balance between its
+  // own relevance and its similarity to the chunks already picked, so near-duplicates (e.g. the
+  // same paragraph repeated on every page) don't fill every slot. Candidates must be ranked best first.
+  async selectDiverse(
+    ranked: Array<{ chunkId: string; score: number }>,
+    limit: number,
+    lambda: number
+  ): Promise<Array<{ chunkId: string; score: number }>> {
+    if (ranked.length <= 1) {
+      return ranked.slice(0, limit);
+    }
+
+    const { modelId } = this.embeddingProvider;
+    const embeddings = await this.db.embeddings
+      .where('chunkId')
+      .anyOf(ranked.map(result => result.chunkId))
+      .filter(embedding => embedding.model === modelId)
+      .toArray();
+    const vectors = new Map(embeddings.map(embedding => [embedding.chunkId, embedding.vector]));
+
+    // Relevance is scaled to 0-1 so fused and cosine scores weigh the same against similarity
+    const maxScore = Math.max(...ranked.map(result => result.score));
+    const remaining = ranked.map(result => ({ ...result, relevance: maxScore > 0 ? result.score / maxScore : 0, redundancy: 0 }));
+    const selected: Array<{ chunkId: string; score: number }> = [];
+
+    while (selected.length < limit && remaining.length > 0) {
+      let bestIndex = 0;
+      let bestValue = -Infinity;
+      remaining.forEach((candidate, index) => {
+        const value = lambda * candidate.relevance - (1 - lambda) * candidate.redundancy;
+        if (value > bestValue) {
+          bestIndex = index;
+          bestValue = value;
+        }
+      });
+
+      const [picked] = remaining.splice(bestIndex, 1);
+      selected.push({ chunkId: picked.chunkId, score: picked.score });
+
+      // Chunks without a comparable vector are never treated as duplicates
+      const pickedVector = vectors.get(picked.chunkId);
+      if (pickedVector) {
+        for (const candidate of remaining) {
+          const vector = vectors.get(candidate.chunkId);
+          if (vector) {
+            candidate.redundancy = Math.max(candidate.redundancy, cosineSimilarity(pickedVector, vector));
+          }
+        }
+      }
+    }
+
+    return selected;
+  }
+
+  // Cosine similarity of the query against chunks in the given documents (null for all documents),
+  // optionally narrowed to specific chunks. Small libraries and scopes are searched exhaustively;
+  // larger ones only score the IVF lists whose centroids are closest to the query.
+  async rankChunks(
+    query: string,
+    limit: number,
+    documentIds: string[] | null,
+    chunkIds: string[] | null = null
+  ): Promise<Array<{ chunkId: string; score: number }>> {
+    if ((documentIds && documentIds.length === 0) || (chunkIds && chunkIds.length === 0)) {
+      return [];
+    }
 
     // Generate embedding for the query
-    const queryEmbedding = await this.generateEmbeddings([query]);
-    const queryVector = queryEmbedding[0];
+    const queryVector = await this.embedQuery(query);
 
-    // Get all embeddings from the database
-    const allEmbeddings = await this.db.embeddings.toArray();
+    const scopedChunkIds = chunkIds ?? (documentIds
+      ? await this.db.chunks.where('documentId').anyOf(documentIds).primaryKeys()
+      : null);
 
-    // Calculate cosine similarity between query vector and all stored vectors
-    const similarities = allEmbeddings.map(embedding => {
-      const similarity = this.cosineSimilarity(queryVector, embedding.vector);
-      return { embedding, similarity };
-    });
+    // Chunks without a vector from the active model are never candidates, so they don't count
+    const candidateCount = await this.db.countEmbeddings(this.embeddingProvider.modelId, scopedChunkIds);
+    const candidateEmbeddings = (candidateCount >= MIN_INDEXED_VECTORS
+      ? await this.getIndexedCandidates(queryVector, limit, scopedChunkIds)
+      : null) || await this.getAllCandidates(scopedChunkIds);
 
-    // Sort by similarity and take the top N
-    const topEmbeddings = similarities
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit)
-      .map(item => item.embedding);
+    // Calculate cosine similarity between query vector and the candidate vectors, then take the top N
+    return candidateEmbeddings
+      .map(embedding => ({
+        chunkId: embedding.chunkId,
+        score: cosineSimilarity(queryVector, embedding.vector)
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
 
-    // Get the corresponding chunks
-    const chunkIds = topEmbeddings.map(embedding => embedding.chunkId);
-    const chunks = await this.db.chunks.where('id').anyOf(chunkIds).toArray();
+  // Every comparable vector in scope, for exact search
+  private async getAllCandidates(scopedChunkIds: string[] | null): Promise<EmbeddingRecord[]> {
+    const candidateEmbeddings = scopedChunkIds
+      ? await this.db.embeddings.where('chunkId').anyOf(scopedChunkIds).toArray()
+      : await this.db.embeddings.toArray();
 
-    return chunks;
+    // Vectors from different models live in different spaces and cannot be compared
+    const { modelId } = this.embeddingProvider;
+    const comparable = candidateEmbeddings.filter(embedding => embedding.model === modelId);
+    if (comparable.length < candidateEmbeddings.length) {
+      const otherModels = Array.from(new Set(
+        candidateEmbeddings.filter(embedding => embedding.model !== modelId).map(embedding => embedding.model)
+      ));
+      if (comparable.length === 0) {
+        throw new Error(
+          `These documents were embedded with ${otherModels.join(', ')} but the active embedding model is ${modelId}. Re-embed the library in the settings to search them.`
+        );
+      }
+      console.warn(`Skipping ${candidateEmbeddings.length - comparable.length} chunks embedded with ${otherModels.join(', ')}`);
+    }
+    return comparable;
   }
 
-  private cosineSimilarity(vecA: number[], vecB: number[]): number {
-    const dotProduct = vecA.reduce((sum, a, idx) => sum + a * vecB[idx], 0);
-    const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
-    const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
-    return dotProduct / (magnitudeA * magnitudeB);
+  // Vectors from the lists nearest the query, probing further lists until enough are in scope.
+  // Returns null when the model has no usable index, so the caller falls back to exact search.
+  private async getIndexedCandidates(
+    queryVector: number[],
+    limit: number,
+    scopedChunkIds: string[] | null
+  ): Promise<EmbeddingRecord[] | null> {
+    const { modelId } = this.embeddingProvider;
+    const index = await this.db.getVectorIndex(modelId);
+    if (!index || index.dimension !== queryVector.length) {
+      return null;
+    }
+
+    const lists = rankLists(queryVector, index);
+    const probeCount = Math.max(MIN_PROBED_LISTS, Math.ceil(lists.length * PROBED_LIST_FRACTION));
+    const inScope = scopedChunkIds ? new Set(scopedChunkIds) : null;
+    const candidates: EmbeddingRecord[] = [];
+
+    for (let start = 0; start < lists.length && candidates.length < limit; start += probeCount) {
+      const probed = await this.db.embeddings
+        .where('[model+listId]')
+        .anyOf(lists.slice(start, start + probeCount).map(list => [modelId, list]))
+        .toArray();
+      candidates.push(...(inScope ? probed.filter(embedding => inScope.has(embedding.chunkId)) : probed));
+    }
+
+    return candidates.length > 0 ? candidates : null;
   }
-}
\ No newline at end of file
+}
@@ -7,13 +7,18 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // The ingestion worker is started as a module worker
+  worker: {
+    format: 'es',
+  },
   build: {
     rollupOptions: {
       output: {
         manualChunks: {
           pdfjs: ['pdfjs-dist'],
           tesseract: ['tesseract.js'],
-          mammoth: ['mammoth']
+          mammoth: ['mammoth'],
+          xlsx: ['xlsx']
         }
       }
     }